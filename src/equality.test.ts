@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { deepEqual, shallowEqual } from "./equality";
+
+describe("shallowEqual", () => {
+    it("should compare primitives with Object.is", () => {
+        expect(shallowEqual(1, 1)).toBe(true);
+        expect(shallowEqual("a", "b")).toBe(false);
+        expect(shallowEqual(NaN, NaN)).toBe(true);
+        expect(shallowEqual<unknown>(null, undefined)).toBe(false);
+    });
+
+    it("should compare object keys by reference", () => {
+        const nested = { c: 1 };
+
+        expect(shallowEqual({ a: 1, b: nested }, { a: 1, b: nested })).toBe(true);
+        expect(shallowEqual({ a: 1, b: { c: 1 } }, { a: 1, b: { c: 1 } })).toBe(false);
+        expect(shallowEqual<object>({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(shallowEqual<object>({ a: undefined }, { b: undefined })).toBe(false);
+    });
+
+    it("should compare arrays item by item", () => {
+        expect(shallowEqual([1, 2, 3], [1, 2, 3])).toBe(true);
+        expect(shallowEqual([1, 2], [1, 2, 3])).toBe(false);
+        expect(shallowEqual([{}], [{}])).toBe(false);
+    });
+
+    it("should not treat arrays and objects as equal", () => {
+        expect(shallowEqual<unknown>([1], { 0: 1 })).toBe(false);
+    });
+});
+
+describe("deepEqual", () => {
+    it("should compare primitives with Object.is", () => {
+        expect(deepEqual(1, 1)).toBe(true);
+        expect(deepEqual(1, 2)).toBe(false);
+        expect(deepEqual(NaN, NaN)).toBe(true);
+    });
+
+    it("should compare nested objects and arrays", () => {
+        expect(deepEqual({ a: { b: [1, { c: 2 }] } }, { a: { b: [1, { c: 2 }] } })).toBe(true);
+        expect(deepEqual({ a: { b: [1, { c: 2 }] } }, { a: { b: [1, { c: 3 }] } })).toBe(false);
+        expect(deepEqual<object>({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+    });
+
+    it("should compare dates by time", () => {
+        expect(deepEqual(new Date(1000), new Date(1000))).toBe(true);
+        expect(deepEqual(new Date(1000), new Date(2000))).toBe(false);
+    });
+
+    it("should compare maps and sets", () => {
+        expect(deepEqual(new Map([["a", { b: 1 }]]), new Map([["a", { b: 1 }]]))).toBe(true);
+        expect(deepEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+        expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+        expect(deepEqual(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    });
+
+    it("should compare class instances by reference", () => {
+        class Point {
+            x: number;
+            constructor(x: number) {
+                this.x = x;
+            }
+        }
+
+        expect(deepEqual(new Point(1), new Point(1))).toBe(false);
+    });
+});
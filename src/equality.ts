@@ -0,0 +1,127 @@
+/**
+ * A function that determines whether two values should be considered equal.
+ *
+ * @typeParam T - The type of values being compared
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * Compares two values using shallow equality.
+ *
+ * Primitives are compared with `Object.is`. Arrays are equal when they have the same length
+ * and their items are `Object.is` equal. Plain objects are equal when they have the same set
+ * of own keys and their values are `Object.is` equal.
+ *
+ * @param a - The first value to compare
+ * @param b - The second value to compare
+ * @returns `true` if the values are shallowly equal
+ *
+ * @example
+ * ```ts
+ * shallowEqual({ a: 1, b: 2 }, { a: 1, b: 2 }); // true
+ * shallowEqual({ a: { b: 1 } }, { a: { b: 1 } }); // false
+ * ```
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) return true;
+    if (!isObject(a) || !isObject(b)) return false;
+
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+
+    for (const key of keysA) {
+        if (!Object.prototype.hasOwnProperty.call(b, key) || !Object.is(a[key], b[key])) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Compares two values using deep structural equality.
+ *
+ * Supports primitives, arrays, plain objects, `Date`, `Map` and `Set` values.
+ * Other object instances are compared by reference.
+ *
+ * @param a - The first value to compare
+ * @param b - The second value to compare
+ * @returns `true` if the values are structurally equal
+ *
+ * @example
+ * ```ts
+ * deepEqual({ a: { b: [1, 2] } }, { a: { b: [1, 2] } }); // true
+ * ```
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+    return deepEqualImpl(a, b);
+}
+
+/**
+ * Recursive implementation of {@link deepEqual} that works on untyped values.
+ * @internal
+ */
+function deepEqualImpl(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (!isObject(a) || !isObject(b)) return false;
+
+    if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime();
+    }
+
+    if (a instanceof Map && b instanceof Map) {
+        if (a.size !== b.size) return false;
+        for (const [key, value] of a) {
+            if (!b.has(key) || !deepEqualImpl(value, b.get(key))) return false;
+        }
+        return true;
+    }
+
+    if (a instanceof Set && b instanceof Set) {
+        if (a.size !== b.size) return false;
+        for (const value of a) {
+            if (!b.has(value)) return false;
+        }
+        return true;
+    }
+
+    if (!Array.isArray(a) && !isPlainObject(a)) {
+        return false;
+    }
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+
+    for (const key of keysA) {
+        if (!Object.prototype.hasOwnProperty.call(b, key) || !deepEqualImpl(a[key], b[key])) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Checks whether a value is a non-null object.
+ * @internal
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+/**
+ * Checks whether a value is a plain object created by an object literal or `Object.create(null)`.
+ * @internal
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (!isObject(value)) return false;
+
+    const proto: unknown = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
@@ -0,0 +1,95 @@
+import type { AsyncFlow, AsyncFlowState } from "@tsip/types";
+
+/**
+ * The mutable state behind an adapted AsyncFlow.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @internal
+ */
+export interface AsyncFlowStore<T> {
+    /** The AsyncFlow that reads the store. */
+    flow: AsyncFlow<T>;
+    /** The listeners of the AsyncFlow. */
+    listeners: Set<() => void>;
+    /** Returns the current state. */
+    get(): AsyncFlowState<T>;
+    /** Replaces the current state without notifying the listeners. */
+    set(state: AsyncFlowState<T>): void;
+    /** Notifies the listeners. */
+    notify(): void;
+    /** Replaces the current state and notifies the listeners. */
+    emit(state: AsyncFlowState<T>): void;
+}
+
+/**
+ * Creates an AsyncFlow whose state is set by an adapter.
+ *
+ * @param initialState - The initial state of the AsyncFlow, pending by default
+ * @internal
+ */
+export function createAsyncFlowStore<T>(initialState: AsyncFlowState<T> = { status: "pending" }): AsyncFlowStore<T> {
+    let state = initialState;
+    const listeners = new Set<() => void>();
+    const waiters = new Set<() => void>();
+
+    const notify = () => {
+        waiters.forEach((waiter) => {
+            waiter();
+        });
+        listeners.forEach((listener) => {
+            listener();
+        });
+    };
+
+    const flow: AsyncFlow<T> = {
+        subscribe(listener) {
+            const wrapped = () => {
+                listener();
+            };
+            listeners.add(wrapped);
+
+            return {
+                unsubscribe() {
+                    listeners.delete(wrapped);
+                },
+            };
+        },
+        getSnapshot() {
+            return state;
+        },
+        asPromise() {
+            const read = flow.getSnapshot();
+            if (read.status === "success") return Promise.resolve(read.data);
+            if (read.status === "error") return Promise.reject(read.error as Error);
+
+            return new Promise<T>((resolve, reject) => {
+                const waiter = () => {
+                    const next = flow.getSnapshot();
+                    if (next.status === "pending") return;
+
+                    waiters.delete(waiter);
+                    if (next.status === "success") {
+                        resolve(next.data);
+                    } else {
+                        reject(next.error as Error);
+                    }
+                };
+                waiters.add(waiter);
+            });
+        },
+    };
+
+    return {
+        flow,
+        listeners,
+        get: () => state,
+        set: (next) => {
+            state = next;
+        },
+        notify,
+        emit: (next) => {
+            state = next;
+            notify();
+        },
+    };
+}
@@ -0,0 +1,253 @@
+import type { AsyncFlow, AsyncFlowState, Flow, FlowSubscription } from "@tsip/types";
+import { createAsyncFlowStore } from "./asyncFlowStore";
+
+/**
+ * A source of asynchronous data that can be read as an AsyncFlow:
+ * a promise, an async iterable, or a Flow of promises.
+ *
+ * @typeParam T - The type of data produced by the source
+ */
+export type AsyncSource<T> = PromiseLike<T> | AsyncIterable<T> | Flow<PromiseLike<T>>;
+
+/**
+ * Extracts the type of data produced by an {@link AsyncSource}.
+ *
+ * @typeParam S - The type of the source
+ */
+export type InferAsyncSourceValue<S> =
+    S extends PromiseLike<infer T>
+        ? T
+        : S extends AsyncIterable<infer T>
+          ? T
+          : S extends Flow<PromiseLike<infer T>>
+            ? T
+            : never;
+
+/**
+ * Caches adapted flows by source, so every read of the same source returns the same AsyncFlow.
+ */
+const sourceFlows = new WeakMap<object, AsyncFlow<unknown>>();
+
+/**
+ * Returns the AsyncFlow that reads the given source, creating it on the first call.
+ *
+ * - A promise is pending until it settles, then it is a success or an error
+ * - An async iterable is pending until the first value, then every value is a success state.
+ *   It is iterated from the first read of the AsyncFlow, and a failure is an error state with the last value.
+ * - A Flow of promises follows the latest promise of the Flow, keeping the data of the previous one
+ *   while the new promise is pending.
+ *
+ * @typeParam T - The type of data produced by the source
+ * @param source - The source to read
+ * @returns The cached AsyncFlow for the source
+ * @internal
+ */
+export function getAsyncSourceFlow<T>(source: AsyncSource<T>): AsyncFlow<T> {
+    let flow = sourceFlows.get(source) as AsyncFlow<T> | undefined;
+    if (!flow) {
+        flow = createAsyncSourceFlow(source);
+        sourceFlows.set(source, flow);
+    }
+    return flow;
+}
+
+/**
+ * Creates the AsyncFlow for a source of the matching kind.
+ * @internal
+ */
+function createAsyncSourceFlow<T>(source: AsyncSource<T>): AsyncFlow<T> {
+    if (isPromiseLike(source)) {
+        return createPromiseFlow(source);
+    }
+
+    if (Symbol.asyncIterator in source) {
+        return createAsyncIterableFlow(source);
+    }
+
+    return createPromiseFlowFlow(source);
+}
+
+/**
+ * Adapts a promise to an AsyncFlow.
+ * @internal
+ */
+function createPromiseFlow<T>(promise: PromiseLike<T>): AsyncFlow<T> {
+    const store = createAsyncFlowStore<T>();
+
+    promise.then(
+        (data) => {
+            store.emit({ status: "success", data });
+        },
+        (error: unknown) => {
+            store.emit({ status: "error", error });
+        },
+    );
+
+    return store.flow;
+}
+
+/**
+ * Adapts an async iterable to an AsyncFlow.
+ *
+ * The iterable is iterated from the first listener of the AsyncFlow, or from a read of its promise.
+ * When the last listener leaves, the iterator is closed with `return()`, and the next listener
+ * iterates the iterable again, keeping the last value until the new iteration produces one.
+ * Closing is deferred to a microtask, so listeners that resubscribe in the same task,
+ * like effects in StrictMode, keep the running iteration.
+ *
+ * Iterables that are their own iterator, like async generators, can't be iterated again,
+ * so they are never closed and are iterated until they complete.
+ *
+ * @internal
+ */
+function createAsyncIterableFlow<T>(iterable: AsyncIterable<T>): AsyncFlow<T> {
+    const store = createAsyncFlowStore<T>();
+    let iterator: AsyncIterator<T> | null = null;
+    let isRestartable = false;
+    let isDone = false;
+    let isStopScheduled = false;
+
+    const iterate = async (current: AsyncIterator<T>) => {
+        try {
+            for (;;) {
+                const result = await current.next();
+                if (iterator !== current) return;
+                if (result.done) break;
+
+                store.emit({ status: "success", data: result.value });
+            }
+
+            iterator = null;
+            isDone = true;
+            if (store.get().status === "pending") {
+                store.emit({ status: "error", error: new Error("Async iterable completed without a value") });
+            }
+        } catch (error) {
+            if (iterator !== current) return;
+
+            iterator = null;
+            isDone = true;
+            store.emit({ status: "error", error, data: store.get().data });
+        }
+    };
+
+    const start = () => {
+        if (iterator || isDone) return;
+
+        const current = iterable[Symbol.asyncIterator]();
+        iterator = current;
+        isRestartable = current !== (iterable as object);
+        void iterate(current);
+    };
+
+    const stop = () => {
+        isStopScheduled = false;
+        if (store.listeners.size > 0 || !iterator || !isRestartable) return;
+
+        const current = iterator;
+        iterator = null;
+        current.return?.().then(undefined, () => {
+            // Nobody reads the iterable anymore
+        });
+    };
+
+    return {
+        ...store.flow,
+        subscribe(listener) {
+            const subscription = store.flow.subscribe(listener);
+            start();
+
+            return {
+                unsubscribe() {
+                    subscription.unsubscribe();
+                    if (store.listeners.size === 0 && !isStopScheduled) {
+                        isStopScheduled = true;
+                        queueMicrotask(stop);
+                    }
+                },
+            };
+        },
+        asPromise() {
+            start();
+            return store.flow.asPromise();
+        },
+    };
+}
+
+/**
+ * Adapts a Flow of promises to an AsyncFlow.
+ *
+ * The Flow is only subscribed to while the AsyncFlow has listeners. Without listeners, the current
+ * promise of the Flow is picked up when the snapshot is read.
+ *
+ * @internal
+ */
+function createPromiseFlowFlow<T>(source: Flow<PromiseLike<T>>): AsyncFlow<T> {
+    const store = createAsyncFlowStore<T>();
+    let current: PromiseLike<T> | null = null;
+
+    const sync = () => {
+        const promise = source.getSnapshot();
+        if (promise === current) return;
+        current = promise;
+
+        store.set({ status: "pending", data: store.get().data });
+
+        const settle = (state: AsyncFlowState<T>) => {
+            // The Flow may have moved to another promise while nobody was reading it
+            sync();
+            if (current === promise) {
+                store.emit(state);
+            }
+        };
+
+        promise.then(
+            (data) => {
+                settle({ status: "success", data });
+            },
+            (error: unknown) => {
+                settle({ status: "error", error, data: store.get().data });
+            },
+        );
+    };
+
+    let sourceSubscription: FlowSubscription | null = null;
+
+    return {
+        ...store.flow,
+        subscribe(listener) {
+            const subscription = store.flow.subscribe(listener);
+
+            sourceSubscription ??= source.subscribe(() => {
+                sync();
+                store.notify();
+            });
+
+            return {
+                unsubscribe() {
+                    subscription.unsubscribe();
+                    if (store.listeners.size === 0) {
+                        sourceSubscription?.unsubscribe();
+                        sourceSubscription = null;
+                    }
+                },
+            };
+        },
+        getSnapshot() {
+            sync();
+            return store.get();
+        },
+        asPromise() {
+            sync();
+            return store.flow.asPromise();
+        },
+    };
+}
+
+/**
+ * Checks whether a source is a promise.
+ * @internal
+ */
+function isPromiseLike<T>(source: AsyncSource<T>): source is PromiseLike<T> {
+    return typeof (source as Partial<PromiseLike<T>>).then === "function";
+}
@@ -0,0 +1,103 @@
+import type { Flow, FlowSubscription } from "@tsip/types";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+
+/**
+ * A list or a map of flows that can be combined into a single Flow.
+ * Entries may be scoped flows, or `skipToken` to skip reading the corresponding flow.
+ */
+export type FlowsInput =
+    | readonly (Flow<unknown> | ScopedFlow<Flow<unknown>> | SkipToken)[]
+    | Readonly<Record<string, Flow<unknown> | ScopedFlow<Flow<unknown>> | SkipToken>>;
+
+/**
+ * Extracts the value type of a single flow input entry.
+ * Resolves to `null` for `skipToken` entries.
+ *
+ * @typeParam F - A Flow type, a scoped flow type or `SkipToken`
+ */
+export type FlowInputValue<F> = F extends SkipToken
+    ? null
+    : F extends Flow<infer D>
+      ? D
+      : F extends ScopedFlow<Flow<infer D>>
+        ? D
+        : never;
+
+/**
+ * Maps a list or a map of flows to the list or the map of their values.
+ *
+ * @typeParam T - The flows input type
+ */
+export type FlowsValues<T extends FlowsInput> = { -readonly [K in keyof T]: FlowInputValue<T[K]> };
+
+/**
+ * A Flow that combines multiple flows into a single value.
+ * @internal
+ */
+export interface CombinedFlow<T extends FlowsInput> extends Flow<FlowsValues<T>> {
+    /**
+     * Builds the combined value from the snapshots returned by `read`.
+     * Used to compute values from sources other than the flows themselves, e.g. hydration data.
+     */
+    combine(read: (flow: Flow<unknown>, key: string) => unknown): FlowsValues<T>;
+}
+
+/**
+ * Combines a list or a map of flows into a single Flow.
+ *
+ * The combined flow subscribes to every input flow and notifies its listener whenever
+ * any of them changes. Its snapshot keeps the same reference while all input snapshots
+ * are unchanged, so it can be used with `useSyncExternalStore` and compared by identity.
+ *
+ * @typeParam T - The flows input type
+ * @param flows - The flows to combine, with scoped flows already resolved. `skipToken` entries resolve to `null`.
+ * @returns A Flow of the combined values with the same shape as the input
+ *
+ * @internal
+ */
+export function combineFlows<T extends FlowsInput>(flows: T): CombinedFlow<T> {
+    const isList = Array.isArray(flows);
+    // Hooks resolve scoped flows to their instances before combining them
+    const entries = Object.entries(flows) as [string, Flow<unknown> | SkipToken][];
+
+    let cached: { snapshots: unknown[]; value: FlowsValues<T> } | null = null;
+
+    const combine = (read: (flow: Flow<unknown>, key: string) => unknown): FlowsValues<T> => {
+        const snapshots = entries.map(([key, flow]) => (flow === skipToken ? null : read(flow, key)));
+
+        if (cached?.snapshots.every((snapshot, index) => Object.is(snapshot, snapshots[index]))) {
+            return cached.value;
+        }
+
+        const value = (
+            isList ? snapshots : Object.fromEntries(entries.map(([key], index) => [key, snapshots[index]]))
+        ) as FlowsValues<T>;
+
+        cached = { snapshots, value };
+        return value;
+    };
+
+    return {
+        subscribe(listener) {
+            const subscriptions: FlowSubscription[] = [];
+            for (const [, flow] of entries) {
+                if (flow !== skipToken) {
+                    subscriptions.push(flow.subscribe(listener));
+                }
+            }
+
+            return {
+                unsubscribe() {
+                    for (const subscription of subscriptions) {
+                        subscription.unsubscribe();
+                    }
+                },
+            };
+        },
+        getSnapshot() {
+            return combine((flow) => flow.getSnapshot());
+        },
+        combine,
+    };
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
+import { createElement, Suspense, type ReactNode } from "react";
+import { act, cleanup, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import { useAsyncFlow } from "../hooks/useAsyncFlow";
+import { useFlow } from "../hooks/useFlow";
+import { createFlowFamily } from "./flowFamily";
+
+describe("createFlowFamily", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        cleanup();
+        vi.useRealTimers();
+    });
+
+    describe("identity", () => {
+        it("should return the same flow for the same key", () => {
+            const factory = vi.fn((id: number) => createFlow(id));
+            const family = createFlowFamily(factory);
+
+            expect(family(1)).toBe(family(1));
+            expect(family(1)).not.toBe(family(2));
+            expect(factory).toHaveBeenCalledTimes(2);
+        });
+
+        it("should serialize object keys regardless of property order", () => {
+            const family = createFlowFamily((key: { page: number; sort: string }) => createFlow(key));
+
+            expect(family({ page: 1, sort: "name" })).toBe(family({ sort: "name", page: 1 }));
+            expect(family({ page: 1, sort: "name" })).not.toBe(family({ page: 2, sort: "name" }));
+        });
+
+        it("should use custom key serialization", () => {
+            const family = createFlowFamily((user: { id: string; name: string }) => createFlow(user.name), {
+                serializeKey: (user) => user.id,
+            });
+
+            expect(family({ id: "1", name: "John" })).toBe(family({ id: "1", name: "Jane" }));
+            expect(family({ id: "1", name: "John" }).getSnapshot()).toBe("John");
+        });
+
+        it("should forward flow methods to the created flow", () => {
+            const flow = createFlow(1);
+            const family = createFlowFamily(() => flow);
+            const listener = vi.fn();
+
+            family("key").subscribe(listener);
+            family("key").emit(2);
+
+            expect(family("key").getSnapshot()).toBe(2);
+            expect(flow.getSnapshot()).toBe(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(getSubscriptionsCount(flow)).toBe(1);
+        });
+    });
+
+    describe("eviction", () => {
+        it("should evict a flow without subscribers after idle time", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: 1000 });
+            const flow = family(1);
+
+            vi.advanceTimersByTime(999);
+            expect(family(1)).toBe(flow);
+
+            vi.advanceTimersByTime(1);
+            expect(family(1)).not.toBe(flow);
+        });
+
+        it("should keep a flow while hooks are subscribed to it", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: 1000 });
+            const flow = family(1);
+
+            const { result, unmount } = renderHook(() => useFlow(family(1)));
+
+            vi.advanceTimersByTime(5000);
+            expect(family(1)).toBe(flow);
+
+            act(() => {
+                family(1).emit(10);
+            });
+            expect(result.current).toBe(10);
+
+            unmount();
+
+            vi.advanceTimersByTime(999);
+            expect(family(1)).toBe(flow);
+
+            vi.advanceTimersByTime(1);
+            expect(family(1)).not.toBe(flow);
+        });
+
+        it("should keep a flow while a suspended component waits for it", async () => {
+            const factory = vi.fn(() => createAsyncFlow<number>({ status: "pending" }));
+            const family = createFlowFamily(factory, { idleTime: 50 });
+            const flow = family(1);
+
+            const wrapper = ({ children }: { children: ReactNode }) =>
+                createElement(Suspense, { fallback: null }, children);
+            const { result } = renderHook(() => useAsyncFlow(family(1))[0](), { wrapper });
+
+            expect(result.current).toBeNull();
+
+            await act(async () => {
+                vi.advanceTimersByTime(100);
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(result.current).toBe(42);
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        it("should evict a flow after its pending promise settles", async () => {
+            const family = createFlowFamily(() => createAsyncFlow<number>({ status: "pending" }), { idleTime: 50 });
+            const flow = family(1);
+
+            void flow.asPromise();
+            vi.advanceTimersByTime(100);
+            expect(family(1)).toBe(flow);
+
+            flow.emit({ status: "success", data: 42 });
+            await Promise.resolve();
+
+            vi.advanceTimersByTime(50);
+            expect(family(1)).not.toBe(flow);
+        });
+
+        it("should cancel eviction when a flow is subscribed again", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: 1000 });
+            const flow = family(1);
+
+            const first = family(1).subscribe(vi.fn());
+            first.unsubscribe();
+            first.unsubscribe();
+
+            vi.advanceTimersByTime(500);
+            const second = family(1).subscribe(vi.fn());
+
+            vi.advanceTimersByTime(5000);
+            expect(family(1)).toBe(flow);
+
+            second.unsubscribe();
+            vi.advanceTimersByTime(1000);
+            expect(family(1)).not.toBe(flow);
+        });
+
+        it("should count every subscription", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: 1000 });
+            const flow = family(1);
+
+            const first = flow.subscribe(vi.fn());
+            const second = flow.subscribe(vi.fn());
+
+            first.unsubscribe();
+            vi.advanceTimersByTime(5000);
+            expect(family(1)).toBe(flow);
+
+            second.unsubscribe();
+            vi.advanceTimersByTime(1000);
+            expect(family(1)).not.toBe(flow);
+        });
+
+        it("should never evict flows with infinite idle time", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: Infinity });
+            const flow = family(1);
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            vi.runAllTimers();
+
+            expect(family(1)).toBe(flow);
+        });
+
+        it("should not keep the process alive while waiting to evict", () => {
+            const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+            const family = createFlowFamily((id: number) => createFlow(id));
+
+            family(1);
+
+            const timer = setTimeoutSpy.mock.results[0]?.value as NodeJS.Timeout;
+            expect(timer.hasRef()).toBe(false);
+
+            setTimeoutSpy.mockRestore();
+        });
+    });
+
+    describe("manual eviction", () => {
+        it("should evict a flow by key", () => {
+            const family = createFlowFamily((id: number) => createFlow(id));
+            const flow1 = family(1);
+            const flow2 = family(2);
+
+            family.evict(1);
+
+            expect(family(1)).not.toBe(flow1);
+            expect(family(2)).toBe(flow2);
+        });
+
+        it("should evict all flows", () => {
+            const family = createFlowFamily((id: number) => createFlow(id));
+            const flow1 = family(1);
+            const flow2 = family(2);
+
+            family.clear();
+
+            expect(family(1)).not.toBe(flow1);
+            expect(family(2)).not.toBe(flow2);
+        });
+
+        it("should not evict a new flow when an evicted one is released", () => {
+            const family = createFlowFamily((id: number) => createFlow(id), { idleTime: 1000 });
+            const subscription = family(1).subscribe(vi.fn());
+
+            family.evict(1);
+            const flow = family(1);
+            flow.subscribe(vi.fn());
+            subscription.unsubscribe();
+
+            vi.advanceTimersByTime(1000);
+            expect(family(1)).toBe(flow);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
@@ -0,0 +1,227 @@
+import type { AsyncFlow, Flow, FlowSubscription } from "@tsip/types";
+import { isPlainObject } from "../equality";
+
+/**
+ * Options for {@link createFlowFamily}.
+ *
+ * @typeParam K - The type of the keys of the family
+ */
+export interface FlowFamilyOptions<K> {
+    /**
+     * Converts a key to the string that identifies its flow.
+     * By default, keys are serialized as JSON with sorted object keys, so `{ a: 1, b: 2 }`
+     * and `{ b: 2, a: 1 }` share the same flow.
+     */
+    serializeKey?: (key: K) => string;
+
+    /**
+     * Time in milliseconds an unused flow is kept before it is evicted from the family.
+     * A flow is in use while it has subscribers, i.e. while hooks that read it are mounted.
+     * Pass `Infinity` to never evict flows. Defaults to 60 seconds.
+     */
+    idleTime?: number;
+}
+
+/**
+ * A keyed factory of flows that returns the same flow instance for the same key.
+ *
+ * @typeParam K - The type of the keys of the family
+ * @typeParam F - The type of the flows of the family
+ */
+export interface FlowFamily<K, F extends Flow<unknown>> {
+    /**
+     * Returns the flow for the key, creating it on the first call.
+     */
+    (key: K): F;
+
+    /**
+     * Removes the flow for the key from the family, so the next call creates a new one.
+     * Components that are still subscribed keep reading the removed flow until they get the new one.
+     */
+    evict(key: K): void;
+
+    /**
+     * Removes all flows from the family.
+     */
+    clear(): void;
+}
+
+/**
+ * A flow of the family with the bookkeeping of its usage.
+ * @internal
+ */
+interface FlowFamilyEntry<F> {
+    /** The flow returned to the callers. */
+    flow: F;
+    /** The number of active subscriptions and pending promises of the flow. */
+    refs: number;
+    /** The timer that evicts the flow, set while the flow is unused. */
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Creates a family of flows: a factory that caches one flow per key.
+ *
+ * Parameterized flows must keep their identity between renders, otherwise hooks resubscribe
+ * on every render and lose the state kept for the flow. The family creates the flow on the first
+ * call for a key and returns the same instance for the same serialized key afterwards.
+ *
+ * Flows are reference-counted by their subscriptions and by the pending promises of AsyncFlows, which
+ * components suspended on the flow wait for. When the last of them is gone, or if nobody uses a newly
+ * created flow, the flow is evicted after `idleTime`. A subscription during this time keeps the flow
+ * in the family.
+ *
+ * The returned flows forward everything to the flows created by the factory, except that their
+ * subscriptions and promises are counted.
+ *
+ * @typeParam K - The type of the keys of the family
+ * @typeParam F - The type of the flows of the family
+ * @param factory - Creates the flow for a key
+ * @param options - The key serialization and the eviction time
+ * @returns The family of flows
+ *
+ * @example
+ * ```tsx
+ * const userFlow = createFlowFamily((id: string) => createUserFlow(id), { idleTime: 30_000 });
+ *
+ * function UserName({ id }: { id: string }) {
+ *   const [user] = useAsyncFlow(userFlow(id));
+ *   return <span>{user().name}</span>;
+ * }
+ * ```
+ */
+export function createFlowFamily<K, F extends Flow<unknown>>(
+    factory: (key: K) => F,
+    options: FlowFamilyOptions<K> = {},
+): FlowFamily<K, F> {
+    const { serializeKey = serializeFamilyKey, idleTime = 60_000 } = options;
+    const entries = new Map<string, FlowFamilyEntry<F>>();
+
+    const remove = (id: string) => {
+        const entry = entries.get(id);
+        if (!entry) return;
+
+        if (entry.timer !== null) {
+            clearTimeout(entry.timer);
+        }
+        entries.delete(id);
+    };
+
+    const scheduleEviction = (id: string, entry: FlowFamilyEntry<F>) => {
+        if (idleTime === Infinity) return;
+
+        entry.timer = setTimeout(() => {
+            if (entries.get(id) === entry) {
+                entries.delete(id);
+            }
+        }, idleTime);
+
+        // Pending evictions must not keep a server process alive
+        (entry.timer as { unref?: () => void }).unref?.();
+    };
+
+    const retain = (entry: FlowFamilyEntry<F>) => {
+        entry.refs++;
+        if (entry.timer !== null) {
+            clearTimeout(entry.timer);
+            entry.timer = null;
+        }
+    };
+
+    const release = (id: string, entry: FlowFamilyEntry<F>) => {
+        entry.refs--;
+        if (entry.refs === 0) {
+            scheduleEviction(id, entry);
+        }
+    };
+
+    const create = (id: string, key: K): FlowFamilyEntry<F> => {
+        const target = factory(key);
+
+        const subscribe = (listener: () => void): FlowSubscription => {
+            const subscription = target.subscribe(listener);
+            let active = true;
+            retain(entry);
+
+            return {
+                unsubscribe() {
+                    subscription.unsubscribe();
+                    if (active) {
+                        active = false;
+                        release(id, entry);
+                    }
+                },
+            };
+        };
+
+        const asPromise = (): Promise<unknown> => {
+            const promise = (target as unknown as AsyncFlow<unknown>).asPromise();
+            retain(entry);
+
+            // Suspended components only wait for the promise, so the flow must outlive a load longer than idleTime
+            const settle = () => {
+                release(id, entry);
+            };
+            promise.then(settle, settle);
+
+            return promise;
+        };
+
+        const flow = new Proxy(target, {
+            get(target, property) {
+                if (property === "subscribe") {
+                    return subscribe;
+                }
+
+                if (property === "asPromise" && "asPromise" in target) {
+                    return asPromise;
+                }
+
+                const value: unknown = Reflect.get(target, property, target);
+                return typeof value === "function" ? (value as (...args: unknown[]) => unknown).bind(target) : value;
+            },
+        });
+
+        const entry: FlowFamilyEntry<F> = { flow, refs: 0, timer: null };
+        return entry;
+    };
+
+    const family = (key: K): F => {
+        const id = serializeKey(key);
+
+        let entry = entries.get(id);
+        if (!entry) {
+            entry = create(id, key);
+            entries.set(id, entry);
+            // Flows read during a render that is never committed would stay in the family forever
+            scheduleEviction(id, entry);
+        }
+
+        return entry.flow;
+    };
+
+    return Object.assign(family, {
+        evict(key: K) {
+            remove(serializeKey(key));
+        },
+        clear() {
+            for (const id of [...entries.keys()]) {
+                remove(id);
+            }
+        },
+    });
+}
+
+/**
+ * Serializes a key as JSON with sorted object keys.
+ * @internal
+ */
+function serializeFamilyKey(key: unknown): string {
+    return JSON.stringify(key, (_, value: unknown) => {
+        if (!isPlainObject(value)) {
+            return value;
+        }
+
+        return Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    });
+}
@@ -0,0 +1,55 @@
+import type { FlowSubscription, MutableFlow } from "@tsip/types";
+
+/**
+ * A Flow owned by a component.
+ * @internal
+ */
+export interface LocalFlow<T> extends MutableFlow<T> {
+    /** Drops all subscriptions of the flow. */
+    dispose(): void;
+}
+
+/**
+ * Creates a mutable Flow for the flows created by hooks.
+ * @internal
+ */
+export function createLocalFlow<T>(initialValue: T): LocalFlow<T> {
+    let value = initialValue;
+    const listeners = new Set<() => void>();
+
+    const subscribe = (listener: () => void): FlowSubscription => {
+        const wrapped = () => {
+            listener();
+        };
+        listeners.add(wrapped);
+
+        return {
+            unsubscribe() {
+                listeners.delete(wrapped);
+            },
+        };
+    };
+
+    const getSnapshot = () => value;
+
+    const flow: LocalFlow<T> = {
+        subscribe,
+        getSnapshot,
+        emit(next) {
+            if (Object.is(value, next)) return;
+
+            value = next;
+            listeners.forEach((listener) => {
+                listener();
+            });
+        },
+        asFlow() {
+            return { subscribe, getSnapshot };
+        },
+        dispose() {
+            listeners.clear();
+        },
+    };
+
+    return flow;
+}
@@ -10,6 +10,8 @@ import { FlowHydrationProvider } from "../hydration/context";
 import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
 import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
 import type { FlowHydrationManager } from "../hydration/types";
+import { FlowTransitionProvider } from "../transition/context";
+import { shallowEqual } from "../equality";
 import {
     useAsyncFlow,
     type ErrorState,
@@ -17,6 +19,7 @@ import {
     type SkippedState,
     type SuccessState,
     type UpdatingState,
+    type UseAsyncFlowControls,
     type UseAsyncFlowResult,
 } from "./useAsyncFlow";
 import { useFlow } from "./useFlow";
@@ -52,6 +55,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: false;
                           currentData: number;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                     // loading state
                     | {
@@ -60,6 +65,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: true;
                           currentData: undefined;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                     // updating state
                     | {
@@ -68,6 +75,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: true;
                           currentData: undefined;
+                          isPlaceholderData: boolean;
+                          isPending: boolean;
                       }
                     // error state
                     | {
@@ -76,6 +85,8 @@ describe("useAsyncFlow", () => {
                           error: unknown;
                           isFetching: false;
                           currentData: number | undefined;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                 >();
             }
@@ -96,6 +107,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: false;
                           currentData: number;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                     // loading state
                     | {
@@ -104,6 +117,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: true;
                           currentData: undefined;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                     // updating state
                     | {
@@ -112,6 +127,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: true;
                           currentData: undefined;
+                          isPlaceholderData: boolean;
+                          isPending: boolean;
                       }
                     // error state
                     | {
@@ -120,6 +137,8 @@ describe("useAsyncFlow", () => {
                           error: unknown;
                           isFetching: false;
                           currentData: number | undefined;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                     // skipped state
                     | {
@@ -128,6 +147,8 @@ describe("useAsyncFlow", () => {
                           error: undefined;
                           isFetching: false;
                           currentData: undefined;
+                          isPlaceholderData: false;
+                          isPending: boolean;
                       }
                 >();
             }
@@ -1108,6 +1129,492 @@ describe("useAsyncFlow", () => {
         });
     });
 
+    describe("select behavior", () => {
+        interface User {
+            name: string;
+            permissions: string[];
+        }
+
+        it("should infer selected types", () => {
+            const flow = createAsyncFlow<User>({ status: "pending" });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [data, state] = useAsyncFlow(flow, { select: (user) => user.permissions });
+                expectTypeOf(data).toEqualTypeOf<() => string[]>();
+                expectTypeOf(state.currentData).toEqualTypeOf<string[] | undefined>();
+
+                const [skippedData] = useAsyncFlow(random() ? flow : skipToken, { select: (user) => user.name });
+                expectTypeOf(skippedData).toEqualTypeOf<(() => string) | null>();
+            }
+        });
+
+        it("should apply the selector to data and currentData", () => {
+            const error = new Error("failed");
+            const flow = createAsyncFlow<User>({ status: "success", data: { name: "John", permissions: ["read"] } });
+
+            const { result } = renderHook(() => useAsyncFlow(flow, { select: (user) => user.name }));
+
+            expect(result.current[0]()).toBe("John");
+            expect(result.current[1].currentData).toBe("John");
+
+            act(() => {
+                flow.emit({ status: "error", error, data: { name: "Jane", permissions: [] } });
+            });
+
+            expect(result.current[0]()).toBe("Jane");
+            expect(result.current[1]).toMatchObject({ isError: true, error, currentData: "Jane" });
+        });
+
+        it("should not re-render when the selected data is unchanged", () => {
+            const permissions = ["read"];
+            const flow = createAsyncFlow<User>({ status: "success", data: { name: "John", permissions } });
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useAsyncFlow(flow, { select: (user) => user.permissions });
+            });
+            const [data, state] = result.current;
+
+            act(() => {
+                flow.emit({ status: "success", data: { name: "Jane", permissions } });
+            });
+
+            expect(renderCount).toBe(1);
+            expect(result.current[0]).toBe(data);
+            expect(result.current[1]).toBe(state);
+
+            act(() => {
+                flow.emit({ status: "success", data: { name: "Jane", permissions: ["write"] } });
+            });
+
+            expect(renderCount).toBe(2);
+            expect(result.current[0]()).toEqual(["write"]);
+        });
+
+        it("should keep the selected reference while the state moves between pending and success", () => {
+            const flow = createAsyncFlow<User>({ status: "success", data: { name: "John", permissions: ["read"] } });
+
+            const renders = vi.fn();
+
+            const { result } = renderHook(() => {
+                renders();
+                return useAsyncFlow(flow, { select: (user) => user.permissions, isEqual: shallowEqual });
+            });
+            const permissions = result.current[0]();
+
+            act(() => {
+                flow.emit({ status: "pending" });
+            });
+
+            expect(renders).toHaveBeenCalledTimes(1);
+
+            act(() => {
+                flow.emit({ status: "success", data: { name: "John", permissions: ["read"] } });
+            });
+
+            expect(renders).toHaveBeenCalledTimes(1);
+            expect(result.current[1]).toMatchObject({ isFetching: false });
+            expect(result.current[0]()).toBe(permissions);
+            expect(result.current[1].currentData).toBe(permissions);
+
+            act(() => {
+                flow.emit({ status: "pending" });
+            });
+
+            act(() => {
+                flow.emit({ status: "success", data: { name: "John", permissions: ["read", "write"] } });
+            });
+
+            expect(renders).toHaveBeenCalledTimes(2);
+            expect(result.current[0]()).toEqual(["read", "write"]);
+        });
+    });
+
+    describe("refetch controls", () => {
+        it("should infer controls type", () => {
+            const flow = createAsyncFlow({ status: "success", data: 0 });
+            const refreshable = Object.assign(createAsyncFlow({ status: "success", data: 0 }), {
+                refetch: () => Promise.resolve(),
+                invalidate: () => {
+                    // noop
+                },
+            });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [, , controls] = useAsyncFlow(flow);
+                expectTypeOf(controls).toEqualTypeOf<UseAsyncFlowControls | null>();
+
+                const [, , refreshableControls] = useAsyncFlow(refreshable);
+                expectTypeOf(refreshableControls).toEqualTypeOf<UseAsyncFlowControls>();
+
+                const [, , skippedControls] = useAsyncFlow(skipToken);
+                expectTypeOf(skippedControls).toEqualTypeOf<null>();
+            }
+        });
+
+        it("should return null controls for flows without refetch support", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+
+            const { result } = renderHook(() => useAsyncFlow(flow));
+
+            expect(result.current[2]).toBeNull();
+        });
+
+        it("should report isFetching while a refetch is in progress", async () => {
+            let resolve: (value: undefined) => void = () => undefined;
+            const promise = new Promise<undefined>((res) => {
+                resolve = res;
+            });
+            const flow = Object.assign(createAsyncFlow({ status: "success", data: 42 }), {
+                refetch: vi.fn(() => promise),
+                invalidate: vi.fn(),
+            });
+
+            const { result } = renderHook(() => useAsyncFlow(flow));
+            const controls = result.current[2];
+
+            let refetchPromise = Promise.resolve();
+            act(() => {
+                refetchPromise = controls.refetch();
+            });
+
+            expect(flow.refetch).toHaveBeenCalledTimes(1);
+            expect(result.current[0]()).toBe(42);
+            expect(result.current[1]).toMatchObject({ isLoading: false, isFetching: true, currentData: undefined });
+
+            await act(async () => {
+                resolve(undefined);
+                await refetchPromise;
+            });
+
+            expect(result.current[1]).toMatchObject({ isFetching: false, currentData: 42 });
+        });
+
+        it("should stop fetching when a refetch fails", async () => {
+            const error = new Error("failed");
+            const flow = Object.assign(createAsyncFlow({ status: "success", data: 42 }), {
+                refetch: vi.fn(() => Promise.reject(error)),
+                invalidate: vi.fn(),
+            });
+
+            const { result } = renderHook(() => useAsyncFlow(flow));
+
+            await act(async () => {
+                await expect(result.current[2].refetch()).rejects.toBe(error);
+            });
+
+            expect(result.current[1]).toMatchObject({ isFetching: false, currentData: 42 });
+        });
+
+        it("should invalidate the flow", () => {
+            const flow = Object.assign(createAsyncFlow({ status: "success", data: 42 }), {
+                refetch: vi.fn(() => Promise.resolve()),
+                invalidate: vi.fn(),
+            });
+
+            const { result } = renderHook(() => useAsyncFlow(flow));
+            result.current[2].invalidate();
+
+            expect(flow.invalidate).toHaveBeenCalledTimes(1);
+            expect(flow.refetch).not.toHaveBeenCalled();
+        });
+
+        it("should return stable controls", () => {
+            const flow = Object.assign(createAsyncFlow({ status: "success", data: 42 }), {
+                refetch: vi.fn(() => Promise.resolve()),
+                invalidate: vi.fn(),
+            });
+
+            const { result, rerender } = renderHook(() => useAsyncFlow(flow));
+            const controls = result.current[2];
+
+            rerender();
+
+            expect(result.current[2]).toBe(controls);
+        });
+    });
+
+    describe("placeholder behavior", () => {
+        it("should keep data of the previous flow while the next flow is pending", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { result, rerender } = renderHook(({ flow }) => useAsyncFlow(flow, { placeholder: "previous" }), {
+                initialProps: { flow: flow1 },
+            });
+
+            expect(result.current[1].isPlaceholderData).toBe(false);
+
+            rerender({ flow: flow2 });
+
+            expect(result.current[0]()).toBe(1);
+            expect(result.current[1]).toMatchObject({
+                isLoading: false,
+                isFetching: true,
+                isPlaceholderData: true,
+                currentData: undefined,
+            });
+
+            act(() => {
+                flow2.emit({ status: "success", data: 2 });
+            });
+
+            expect(result.current[0]()).toBe(2);
+            expect(result.current[1]).toMatchObject({ isFetching: false, isPlaceholderData: false, currentData: 2 });
+        });
+
+        it("should not suspend when switching to a pending flow", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const PlaceholderComponent = (props: { flow: AsyncFlow<number> }) => {
+                const [data, state] = useAsyncFlow(props.flow, { placeholder: "previous" });
+                return <div data-testid="value">{`${String(data())} ${String(state.isPlaceholderData)}`}</div>;
+            };
+
+            const { rerender } = render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <PlaceholderComponent flow={flow1} />
+                </Suspense>,
+            );
+
+            rerender(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <PlaceholderComponent flow={flow2} />
+                </Suspense>,
+            );
+
+            expect(screen.queryByTestId("fallback")).not.toBeInTheDocument();
+            expect(screen.getByTestId("value")).toHaveTextContent("1 true");
+        });
+
+        it("should return loading state if nothing was rendered before", () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+
+            const { result } = renderHook(() => useAsyncFlow(flow, { placeholder: "previous" }));
+
+            expect(result.current[1]).toMatchObject({ isLoading: true, isPlaceholderData: false });
+        });
+
+        it("should not keep data without the option", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { result, rerender } = renderHook(({ flow }) => useAsyncFlow(flow), {
+                initialProps: { flow: flow1 },
+            });
+
+            rerender({ flow: flow2 });
+
+            expect(result.current[1]).toMatchObject({ isLoading: true, isPlaceholderData: false });
+        });
+
+        it("should keep placeholder data per hook", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            renderHook(() => useAsyncFlow(flow1, { placeholder: "previous" }));
+            const { result } = renderHook(() => useAsyncFlow(flow2, { placeholder: "previous" }));
+
+            expect(result.current[1]).toMatchObject({ isLoading: true, isPlaceholderData: false });
+        });
+    });
+
+    describe("schedule behavior", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should throttle updates", () => {
+            vi.useFakeTimers();
+            const flow = createAsyncFlow({ status: "success", data: 0 });
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useAsyncFlow(flow, { schedule: { throttle: 100 } });
+            });
+
+            act(() => {
+                flow.emit({ status: "success", data: 1 });
+            });
+
+            expect(result.current[1].currentData).toBe(1);
+            expect(renderCount).toBe(2);
+
+            act(() => {
+                flow.emit({ status: "success", data: 2 });
+                flow.emit({ status: "success", data: 3 });
+            });
+
+            expect(result.current[1].currentData).toBe(1);
+            expect(renderCount).toBe(2);
+
+            act(() => {
+                vi.advanceTimersByTime(100);
+            });
+
+            expect(result.current[1].currentData).toBe(3);
+            expect(renderCount).toBe(3);
+        });
+
+        it("should schedule updates in transition mode", () => {
+            vi.useFakeTimers();
+            const flow = createAsyncFlow({ status: "success", data: 0 });
+
+            const { result } = renderHook(() => useAsyncFlow(flow, { schedule: { debounce: 100 }, transition: true }));
+
+            act(() => {
+                flow.emit({ status: "success", data: 1 });
+                flow.emit({ status: "success", data: 2 });
+            });
+
+            expect(result.current[1].currentData).toBe(0);
+
+            act(() => {
+                vi.advanceTimersByTime(100);
+            });
+
+            expect(result.current[1].currentData).toBe(2);
+        });
+    });
+
+    describe("transition behavior", () => {
+        const TransitionComponent = (props: { flow: AsyncFlow<number>; transition?: boolean }) => {
+            const [data, state] = useAsyncFlow(props.flow, { transition: props.transition });
+            return <div data-testid="value">{`${String(data())} ${String(state.isPending)}`}</div>;
+        };
+
+        it("should keep the previous flow on screen while the next flow is pending", async () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { rerender } = render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TransitionComponent flow={flow1} transition />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("1 false");
+
+            rerender(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TransitionComponent flow={flow2} transition />
+                </Suspense>,
+            );
+
+            expect(screen.queryByTestId("fallback")).not.toBeInTheDocument();
+            expect(screen.getByTestId("value")).toHaveTextContent("1 true");
+
+            act(() => {
+                flow2.emit({ status: "success", data: 2 });
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("2 false");
+            });
+            expect(screen.queryByTestId("fallback")).not.toBeInTheDocument();
+        });
+
+        it("should show the fallback for the next pending flow without transition mode", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { rerender } = render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TransitionComponent flow={flow1} />
+                </Suspense>,
+            );
+
+            rerender(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TransitionComponent flow={flow2} />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+        });
+
+        it("should apply emits of the same flow", async () => {
+            const flow = createAsyncFlow({ status: "success", data: 1 });
+
+            render(<TransitionComponent flow={flow} transition />);
+
+            act(() => {
+                flow.emit({ status: "success", data: 2 });
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("2 false");
+            });
+        });
+
+        it("should enable transition mode with a provider", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { rerender } = render(
+                <FlowTransitionProvider>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TransitionComponent flow={flow1} />
+                    </Suspense>
+                </FlowTransitionProvider>,
+            );
+
+            rerender(
+                <FlowTransitionProvider>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TransitionComponent flow={flow2} />
+                    </Suspense>
+                </FlowTransitionProvider>,
+            );
+
+            expect(screen.queryByTestId("fallback")).not.toBeInTheDocument();
+            expect(screen.getByTestId("value")).toHaveTextContent("1 true");
+        });
+
+        it("should allow opting out of the provider per hook", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow<number>({ status: "pending" });
+
+            const { rerender } = render(
+                <FlowTransitionProvider>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TransitionComponent flow={flow1} transition={false} />
+                    </Suspense>
+                </FlowTransitionProvider>,
+            );
+
+            rerender(
+                <FlowTransitionProvider>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TransitionComponent flow={flow2} transition={false} />
+                    </Suspense>
+                </FlowTransitionProvider>,
+            );
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+        });
+
+        it("should unsubscribe from the previous flow", async () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 1 });
+            const flow2 = createAsyncFlow({ status: "success", data: 2 });
+
+            const { rerender } = render(<TransitionComponent flow={flow1} transition />);
+
+            rerender(<TransitionComponent flow={flow2} transition />);
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("2 false");
+            });
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(1);
+        });
+    });
+
     describe("hydration behavior", () => {
         it("should hydrate server markup", async () => {
             // @ts-expect-error emulate serder-side env
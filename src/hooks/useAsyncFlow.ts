@@ -1,8 +1,16 @@
 import type { AsyncFlow, AsyncFlowState, InferAsyncFlowValue } from "@tsip/types";
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { skipToken, type SkipToken } from "../skipToken";
-import { useFlow } from "./useFlow";
+import { isRefreshableAsyncFlow, type RefreshableAsyncFlow } from "../refreshable";
+import { useFlowTransitionEnabled } from "../transition/context";
+import type { EqualityFn } from "../equality";
+import type { FlowSchedule } from "../schedule";
+import type { ScopedFlow } from "../scope/scope";
+import { useFlowStore } from "./useFlow";
+import { useFlowStoreSelector, createCommittedSelection, createSelectionMemo } from "./useFlowSelector";
+import { useFlowTransition } from "./useFlowTransition";
 import { useIsSsr } from "./useIsSsr";
+import { useResolvedFlow } from "./useScopedFlow";
 
 /**
  * A function that accesses and returns the current data from an AsyncFlow.
@@ -26,6 +34,10 @@ export interface SuccessState<T> {
     isFetching: false;
     /** The most up-to-date data available. Same as `data` in success state. */
     currentData: T;
+    /** Indicates if the data is a placeholder kept from a previous flow. Always `false` for success state. */
+    isPlaceholderData: false;
+    /** Indicates if a transition to a new state is in progress. Can only be `true` in transition mode. */
+    isPending: boolean;
 }
 
 /**
@@ -42,6 +54,10 @@ export interface LoadingState {
     isFetching: true;
     /** The most up-to-date data available. Always `undefined` during initial load. */
     currentData: undefined;
+    /** Indicates if the data is a placeholder kept from a previous flow. Always `false` for loading state. */
+    isPlaceholderData: false;
+    /** Indicates if a transition to a new state is in progress. Can only be `true` in transition mode. */
+    isPending: boolean;
 }
 
 /**
@@ -58,6 +74,10 @@ export interface UpdatingState {
     isFetching: true;
     /** The most up-to-date data available. Always `undefined` while updating. */
     currentData: undefined;
+    /** Indicates if the data is a placeholder kept from a previous flow. `true` if the accessor returns data of a previously rendered flow. */
+    isPlaceholderData: boolean;
+    /** Indicates if a transition to a new state is in progress. Can only be `true` in transition mode. */
+    isPending: boolean;
 }
 
 /**
@@ -74,6 +94,10 @@ export interface ErrorState<T> {
     isFetching: false;
     /** The most up-to-date data available. */
     currentData: T | undefined;
+    /** Indicates if the data is a placeholder kept from a previous flow. Always `false` for error state. */
+    isPlaceholderData: false;
+    /** Indicates if a transition to a new state is in progress. Can only be `true` in transition mode. */
+    isPending: boolean;
 }
 
 /**
@@ -90,6 +114,10 @@ export interface SkippedState {
     isFetching: false;
     /** The most up-to-date data available. Always `undefined` for skipped state. */
     currentData: undefined;
+    /** Indicates if the data is a placeholder kept from a previous flow. Always `false` for skipped state. */
+    isPlaceholderData: false;
+    /** Indicates if a transition to a new state is in progress. Can only be `true` in transition mode. */
+    isPending: boolean;
 }
 
 /**
@@ -112,8 +140,80 @@ export type UseAsyncFlowState<T> = SuccessState<T> | LoadingState | UpdatingStat
  * @typeParam T - The type of data
  * @typeParam UseSuspense - Whether Suspense is enabled
  * @typeParam UseErrorBoundary - Whether ErrorBoundary is enabled
+ * @typeParam C - The type of controls, `null` if the flow is not a {@link RefreshableAsyncFlow}
  */
-export type UseAsyncFlowResult<T> = [UseAsyncFlowAccessor<T>, UseAsyncFlowState<T>];
+export type UseAsyncFlowResult<T, C extends UseAsyncFlowControls | null = UseAsyncFlowControls | null> = [
+    UseAsyncFlowAccessor<T>,
+    UseAsyncFlowState<T>,
+    C,
+];
+
+/**
+ * Controls returned by {@link useAsyncFlow} for flows that implement the {@link RefreshableAsyncFlow} protocol.
+ */
+export interface UseAsyncFlowControls {
+    /**
+     * Reloads the data of the flow. The hook reports `isFetching` until the returned promise settles,
+     * even if it already shows data.
+     */
+    refetch(): Promise<void>;
+    /** Marks the data of the flow as stale. */
+    invalidate(): void;
+}
+
+/**
+ * Infers the type of controls returned by {@link useAsyncFlow} for the given flow type.
+ * @internal
+ */
+export type InferAsyncFlowControls<T> =
+    T extends RefreshableAsyncFlow<unknown> ? UseAsyncFlowControls : UseAsyncFlowControls | null;
+
+/**
+ * Configuration options for {@link useAsyncFlow}.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @typeParam S - The type of data returned by the hook after `select`
+ */
+export interface UseAsyncFlowOptions<T = unknown, S = T> {
+    /**
+     * Transforms the data of the flow before it is returned from the accessor and `currentData`.
+     *
+     * The hook re-renders only when the status of the flow or the selected data changes according to `isEqual`,
+     * and the selected data keeps its reference while it is considered equal. A refetch that keeps the selected
+     * data unchanged doesn't re-render the component, so `isFetching` is only reported for refetches started
+     * with the returned controls.
+     */
+    select?: (data: T) => S;
+
+    /**
+     * Compares the previous and the next selected data. Defaults to `Object.is`.
+     */
+    isEqual?: EqualityFn<S>;
+
+    /**
+     * When to re-render the component after the flow emits. Defaults to `"sync"`.
+     */
+    schedule?: FlowSchedule;
+
+    /**
+     * Whether to apply flow updates as React transitions.
+     *
+     * In transition mode, switching to a flow that has no data yet keeps the previously committed
+     * UI on screen instead of showing the nearest Suspense fallback, and `isPending` is `true`
+     * until the new state is rendered. Defaults to the value set by the nearest `FlowTransitionProvider`,
+     * or `false` if there is none.
+     */
+    transition?: boolean;
+
+    /**
+     * Data to show while a flow without previous data is loading.
+     *
+     * With `"previous"`, the last successful data rendered by this hook is kept when it switches to a new flow,
+     * for example when `userFlow(id)` returns a new flow for a new `id`. The accessor returns the previous data
+     * instead of suspending, and the state is an `UpdatingState` with `isPlaceholderData` set to `true`.
+     */
+    placeholder?: "previous";
+}
 
 /**
  * Stores the previous state of each AsyncFlow to enable proper state transitions.
@@ -128,12 +228,13 @@ const previousStates = new WeakMap<AsyncFlow<unknown>, AsyncFlowState<unknown>>(
  * similar to react-query hooks.
  *
  * @typeParam T - The type of data in the AsyncFlow
+ * @typeParam S - The type of data returned by the hook after `select`
  * @typeParam UseSuspense - Whether to enable Suspense integration (default: `true`)
  * @typeParam UseErrorBoundary - Whether to enable ErrorBoundary integration (default: `true`)
  *
- * @param flow - The AsyncFlow to subscribe to, or `skipToken` to skip subscription
- * @param options - Configuration options for Suspense and ErrorBoundary behavior
- * @returns The current state of the async operation, or `null` if `skipToken` is passed
+ * @param flow - The AsyncFlow to subscribe to, a scoped AsyncFlow, or `skipToken` to skip subscription
+ * @param options - Configuration options, such as transition mode
+ * @returns The accessor, the current state of the async operation and the refetch controls
  *
  * @example
  * Basic usage with Suspense and ErrorBoundary:
@@ -175,101 +276,413 @@ const previousStates = new WeakMap<AsyncFlow<unknown>, AsyncFlowState<unknown>>(
  *   return <div>{user.data.name}</div>;
  * }
  * ```
+ *
+ * @example
+ * Keeping the current UI on screen while the next flow is loading:
+ * ```tsx
+ * function UserProfile({ userId }: { userId: string }) {
+ *   const [user, { isPending }] = useAsyncFlow(userFlow(userId), { transition: true });
+ *   return <div style={{ opacity: isPending ? 0.5 : 1 }}>{user().name}</div>;
+ * }
+ * ```
+ *
+ * @example
+ * Selecting a part of the data:
+ * ```tsx
+ * function Permissions() {
+ *   const [permissions] = useAsyncFlow(userFlow, { select: (user) => user.permissions });
+ *   return <PermissionsList permissions={permissions()} />;
+ * }
+ * ```
+ *
+ * @example
+ * Reloading a flow that implements the {@link RefreshableAsyncFlow} protocol:
+ * ```tsx
+ * function UserProfile() {
+ *   const [user, { isFetching }, controls] = useAsyncFlow(userFlow);
+ *   return <button disabled={isFetching} onClick={() => void controls.refetch()}>{user().name}</button>;
+ * }
+ * ```
  */
-export function useAsyncFlow(flow: SkipToken): [null, SkippedState];
-export function useAsyncFlow<T extends AsyncFlow<unknown>>(flow: T): UseAsyncFlowResult<InferAsyncFlowValue<T>>;
-export function useAsyncFlow<T extends AsyncFlow<unknown>>(
-    flow: T | SkipToken,
-): UseAsyncFlowResult<InferAsyncFlowValue<T>> | [null, SkippedState];
-export function useAsyncFlow<T extends AsyncFlow<unknown>>(
-    flow: T | SkipToken,
-): UseAsyncFlowResult<InferAsyncFlowValue<T>> | [null, SkippedState] {
+export function useAsyncFlow(flow: SkipToken, options?: UseAsyncFlowOptions): [null, SkippedState, null];
+export function useAsyncFlow<T extends AsyncFlow<unknown>, S = InferAsyncFlowValue<T>>(
+    flow: T | ScopedFlow<T>,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S, InferAsyncFlowControls<T>>;
+export function useAsyncFlow<T extends AsyncFlow<unknown>, S = InferAsyncFlowValue<T>>(
+    flow: T | ScopedFlow<T> | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S, InferAsyncFlowControls<T>> | [null, SkippedState, null];
+export function useAsyncFlow<T extends AsyncFlow<unknown>, S>(
+    source: T | ScopedFlow<T> | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S> | [null, SkippedState, null] {
     type Data = InferAsyncFlowValue<T>;
 
-    const state = useFlow(flow);
+    const flow = useResolvedFlow(source);
+
+    const transitionEnabled = useFlowTransitionEnabled();
+    const transition = options?.transition ?? transitionEnabled;
+
+    const select = options?.select;
+    const isEqual = options?.isEqual ?? Object.is;
+    const [committedSelection] = useState(createCommittedSelection<S>);
+
+    const [selectData, isStateEqual] = useMemo(() => {
+        if (!select) {
+            return [null, Object.is];
+        }
+
+        const selectData = createSelectionMemo(select, isEqual, committedSelection) as (data: Data) => S;
+        return [selectData, createAsyncFlowStateEquality(flow as AsyncFlow<Data> | SkipToken, selectData)];
+    }, [flow, select, isEqual, committedSelection]);
+
+    // Both subscriptions are always created to keep the order of hooks stable, but only one of them is active
+    const store = useFlowStore(transition ? skipToken : (flow as AsyncFlow<Data> | SkipToken), options?.schedule);
+    const latestState = useFlowStoreSelector(store, transition ? null : identity, isStateEqual);
+    const committed = useFlowTransition(
+        transition ? (flow as AsyncFlow<Data>) : skipToken,
+        isStateEqual,
+        options?.schedule,
+    );
+
+    const renderedFlow = transition ? (committed.flow as T | SkipToken) : flow;
+    const state = transition ? committed.value : latestState;
+    const isPending = transition && committed.isPending;
     const isSsr = useIsSsr();
 
+    const [placeholder] = useState(createPlaceholderData<Data>);
+    const placeholderEnabled = options?.placeholder === "previous";
+
     useEffect(() => {
-        if (flow !== skipToken && state) {
-            previousStates.set(flow, state);
-        }
-    }, [flow, state]);
+        if (renderedFlow !== skipToken && state) {
+            setPreviousAsyncFlowState(renderedFlow, state);
 
-    const reader = useMemo(() => {
-        if (!state || flow === skipToken) {
-            return null;
+            if (state.status === "success") {
+                placeholder.set(state.data);
+
+                if (selectData) {
+                    committedSelection.set(selectData(state.data));
+                }
+            }
         }
+    }, [renderedFlow, state, placeholder, selectData, committedSelection]);
 
-        return (): Data => {
-            let readerState = state;
+    const [refetching, setRefetching] = useState<RefetchingState>({ flow: skipToken, count: 0 });
+    const isRefetching = refetching.flow === renderedFlow && refetching.count > 0;
 
-            const isServer = typeof window === "undefined";
-            const isHydration = isSsr && !isServer;
-            if (!isHydration) {
-                // During hydration, we must use the frozen state from the useFlow() hook to avoid hydration errors,
-                // but otherwise we want the most recent state of the flow
-                readerState = flow.getSnapshot();
-            }
+    const controls = useMemo(() => {
+        if (renderedFlow === skipToken || !isRefreshableAsyncFlow(renderedFlow)) {
+            return null;
+        }
 
-            const prevState = previousStates.get(flow) as AsyncFlowState<Data> | undefined;
+        return createAsyncFlowControls(renderedFlow, (delta) => {
+            setRefetching((prev) => {
+                const count = prev.flow === renderedFlow ? prev.count + delta : delta;
+                return count > 0 ? { flow: renderedFlow, count } : { flow: skipToken, count: 0 };
+            });
+        });
+    }, [renderedFlow]);
 
-            if (readerState.status === "pending") {
-                if (prevState && prevState.status === "success") {
-                    return prevState.data;
-                }
+    const reader = useMemo(() => {
+        if (!state || renderedFlow === skipToken) {
+            return null;
+        }
 
-                if (readerState.data !== undefined) {
-                    return readerState.data as Data;
-                }
+        const read = (): Data => {
+            const read = readAsyncFlowState(renderedFlow as AsyncFlow<Data>, state, isSsr, transition);
 
-                const isServer = typeof window === "undefined";
-                const isHydration = isSsr && !isServer;
-                if (isHydration) {
-                    // A pending state during the hydration process leads to an infinite loading state and should not occur in normal operation
-                    throw new Error("Unexpected pending state for async flow during component hydration");
+            if (read.status === "pending") {
+                const placeholderData = placeholderEnabled ? placeholder.get() : null;
+                if (placeholderData) {
+                    return placeholderData.value;
                 }
 
                 // eslint-disable-next-line @typescript-eslint/only-throw-error
-                throw flow.asPromise();
+                throw read.promise;
             }
 
-            if (readerState.status === "error" && readerState.data === undefined) {
-                throw readerState.error;
+            if (read.status === "error") {
+                throw read.error;
             }
 
-            return readerState.data as Data;
+            return read.data;
         };
-    }, [flow, state, isSsr]);
+
+        return selectData ? () => selectData(read()) : read;
+    }, [renderedFlow, state, isSsr, transition, placeholderEnabled, placeholder, selectData]);
 
     const result = useMemo(() => {
-        if (!state || flow === skipToken) {
+        if (!state || renderedFlow === skipToken) {
             return skippedState();
         }
 
-        const prevState = previousStates.get(flow);
+        let result = getAsyncFlowState(renderedFlow as AsyncFlow<Data>, state, isSsr);
+        if (result.isLoading && placeholderEnabled && placeholder.get()) {
+            result = placeholderState();
+        }
 
-        if (state.status === "pending") {
-            if (prevState && prevState.status === "success") {
-                return updatingState();
-            }
+        if (isRefetching && !result.isFetching && !result.isError) {
+            result = updatingState();
+        }
+
+        if (isPending) {
+            result = { ...result, isPending };
+        }
+
+        return selectData ? selectAsyncFlowState(result, selectData) : result;
+    }, [state, renderedFlow, isSsr, isPending, placeholderEnabled, placeholder, isRefetching, selectData]);
+
+    return useMemo(() => {
+        return [reader, result, controls] as UseAsyncFlowResult<S>;
+    }, [reader, result, controls]);
+}
+
+/**
+ * Returns the value as is. Used as the selector of raw AsyncFlow states.
+ * @internal
+ */
+function identity<T>(value: T): T {
+    return value;
+}
+
+/**
+ * Creates a function that compares AsyncFlow states by their status, error and selected data,
+ * so states that differ only in parts of the data that are not selected are considered equal.
+ *
+ * The pending state of a refetch is equal to the success state before it while the selected data is unchanged,
+ * so the component keeps the success state on screen. Flows that don't keep the data in the pending state
+ * are compared by the data last rendered for the flow.
+ *
+ * @param flow - The AsyncFlow the states belong to
+ * @param selectData - Memoized function that returns the same reference for equal selections
+ * @returns An equality function for AsyncFlow states
+ * @internal
+ */
+function createAsyncFlowStateEquality<T>(
+    flow: AsyncFlow<T> | SkipToken,
+    selectData: (data: T) => unknown,
+): EqualityFn<AsyncFlowState<T>> {
+    return (prev, next) => {
+        if (prev.status === "success" && next.status === "pending") {
+            const rendered = flow === skipToken ? undefined : previousStates.get(flow);
+            const refetched = next.data !== undefined ? next : rendered?.status === "success" ? rendered : null;
+            return refetched !== null && Object.is(selectData(prev.data), selectData(refetched.data as T));
+        }
+
+        if (prev.status !== next.status) {
+            return false;
+        }
+
+        if (prev.status === "error" && next.status === "error" && !Object.is(prev.error, next.error)) {
+            return false;
+        }
+
+        if (prev.status !== "success" && (prev.data === undefined || next.data === undefined)) {
+            return prev.data === next.data;
+        }
+
+        return Object.is(selectData(prev.data as T), selectData(next.data as T));
+    };
+}
+
+/**
+ * Applies the selector to the data of a {@link UseAsyncFlowState}.
+ *
+ * @param state - The state with the data of the flow
+ * @param selectData - Function that transforms the data
+ * @returns The state with the selected data
+ * @internal
+ */
+function selectAsyncFlowState<T, S>(state: UseAsyncFlowState<T>, selectData: (data: T) => S): UseAsyncFlowState<S> {
+    if (state.isError) {
+        return {
+            ...state,
+            currentData: state.currentData === undefined ? undefined : selectData(state.currentData),
+        };
+    }
+
+    if (!state.isFetching) {
+        return { ...state, currentData: selectData(state.currentData) };
+    }
+
+    return state;
+}
+
+/**
+ * The number of refetches started by a {@link useAsyncFlow} hook that have not settled yet.
+ * @internal
+ */
+interface RefetchingState {
+    flow: AsyncFlow<unknown> | SkipToken;
+    count: number;
+}
 
-            if (state.data !== undefined) {
-                return updatingState();
+/**
+ * Creates the controls of a refreshable AsyncFlow.
+ *
+ * @param flow - The refreshable AsyncFlow to control
+ * @param track - Called with `1` when a refetch starts and with `-1` when it settles
+ * @returns The controls returned by {@link useAsyncFlow}
+ * @internal
+ */
+function createAsyncFlowControls(
+    flow: RefreshableAsyncFlow<unknown>,
+    track: (delta: number) => void,
+): UseAsyncFlowControls {
+    return {
+        refetch: async () => {
+            track(1);
+            try {
+                await flow.refetch();
+            } finally {
+                track(-1);
             }
+        },
+        invalidate: () => {
+            flow.invalidate();
+        },
+    };
+}
+
+/**
+ * The outcome of reading the data of an AsyncFlow without throwing.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @internal
+ */
+export type AsyncFlowRead<T> =
+    | { status: "success"; data: T }
+    | { status: "pending"; promise: Promise<T> }
+    | { status: "error"; error: unknown };
+
+/**
+ * Reads the data of an AsyncFlow the same way the {@link useAsyncFlow} accessor does,
+ * but returns the outcome instead of throwing it.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow to read
+ * @param state - The state of the flow captured during render
+ * @param isSsr - Whether the component is rendered on the server or being hydrated
+ * @param isFrozen - Whether to read the given state instead of the latest state of the flow, e.g. in transition mode
+ * @returns The data, the promise to suspend on, or the error to throw
+ * @throws An error if the flow is pending during hydration
+ * @internal
+ */
+export function readAsyncFlowState<T>(
+    flow: AsyncFlow<T>,
+    state: AsyncFlowState<T>,
+    isSsr: boolean,
+    isFrozen = false,
+): AsyncFlowRead<T> {
+    let readerState = state;
+
+    const isServer = typeof window === "undefined";
+    const isHydration = isSsr && !isServer;
+    if (!isHydration && !isFrozen) {
+        // During hydration, we must use the frozen state from the useFlow() hook to avoid hydration errors,
+        // and in transition mode the committed state must stay on screen until the transition completes,
+        // but otherwise we want the most recent state of the flow
+        readerState = flow.getSnapshot();
+    }
+
+    const prevState = previousStates.get(flow) as AsyncFlowState<T> | undefined;
+
+    if (readerState.status === "pending") {
+        if (prevState && prevState.status === "success") {
+            return { status: "success", data: prevState.data };
+        }
 
-            return isSsr ? updatingState() : loadingState();
+        if (readerState.data !== undefined) {
+            return { status: "success", data: readerState.data };
         }
 
-        if (state.status === "error") {
-            return errorState(state);
+        if (isHydration) {
+            // A pending state during the hydration process leads to an infinite loading state and should not occur in normal operation
+            throw new Error("Unexpected pending state for async flow during component hydration");
         }
 
-        return successState(state);
-    }, [state, flow, isSsr]);
+        return { status: "pending", promise: flow.asPromise() };
+    }
 
-    return useMemo(() => {
-        return [reader, result] as UseAsyncFlowResult<Data>;
-    }, [reader, result]);
+    if (readerState.status === "error" && readerState.data === undefined) {
+        return { status: "error", error: readerState.error };
+    }
+
+    return { status: "success", data: readerState.data as T };
+}
+
+/**
+ * Derives the {@link UseAsyncFlowState} for the given AsyncFlow state.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow the state belongs to
+ * @param state - The state of the flow captured during render
+ * @param isSsr - Whether the component is rendered on the server or being hydrated
+ * @returns The state object exposed by the hooks
+ * @internal
+ */
+export function getAsyncFlowState<T>(
+    flow: AsyncFlow<T>,
+    state: AsyncFlowState<T>,
+    isSsr: boolean,
+): UseAsyncFlowState<T> {
+    const prevState = previousStates.get(flow);
+
+    if (state.status === "pending") {
+        if (prevState && prevState.status === "success") {
+            return updatingState();
+        }
+
+        if (state.data !== undefined) {
+            return updatingState();
+        }
+
+        return isSsr ? updatingState() : loadingState();
+    }
+
+    if (state.status === "error") {
+        return errorState(state);
+    }
+
+    return successState(state);
+}
+
+/**
+ * Remembers the last rendered state of an AsyncFlow to enable proper state transitions.
+ *
+ * @param flow - The AsyncFlow the state belongs to
+ * @param state - The state of the flow committed to the screen
+ * @internal
+ */
+export function setPreviousAsyncFlowState<T>(flow: AsyncFlow<T>, state: AsyncFlowState<T>): void {
+    previousStates.set(flow, state);
+}
+
+/**
+ * Holds the last successful data rendered by a {@link useAsyncFlow} hook.
+ * @internal
+ */
+interface PlaceholderData<T> {
+    get(): { value: T } | null;
+    set(value: T): void;
+}
+
+/**
+ * Creates a holder for the last successful data rendered by the hook.
+ *
+ * @returns An object with accessors for the placeholder data
+ * @internal
+ */
+function createPlaceholderData<T>(): PlaceholderData<T> {
+    let data: { value: T } | null = null;
+
+    return {
+        get: () => data,
+        set: (value: T) => {
+            data = { value };
+        },
+    };
 }
 
 /**
@@ -280,13 +693,15 @@ export function useAsyncFlow<T extends AsyncFlow<unknown>>(
  * @returns A success state object
  * @internal
  */
-function successState<T>(state: AsyncFlowState<T> & { status: "success" }): SuccessState<T> {
+export function successState<T>(state: AsyncFlowState<T> & { status: "success" }): SuccessState<T> {
     return {
         isLoading: false,
         isError: false,
         error: undefined,
         isFetching: false,
         currentData: state.data,
+        isPlaceholderData: false,
+        isPending: false,
     };
 }
 
@@ -296,13 +711,15 @@ function successState<T>(state: AsyncFlowState<T> & { status: "success" }): Succ
  * @returns A loading state object
  * @internal
  */
-function loadingState(): LoadingState {
+export function loadingState(): LoadingState {
     return {
         isLoading: true,
         isError: false,
         error: undefined,
         isFetching: true,
         currentData: undefined,
+        isPlaceholderData: false,
+        isPending: false,
     };
 }
 
@@ -312,13 +729,28 @@ function loadingState(): LoadingState {
  * @returns An updating state object
  * @internal
  */
-function updatingState(): UpdatingState {
+export function updatingState(): UpdatingState {
     return {
         isLoading: false,
         isError: false,
         error: undefined,
         isFetching: true,
         currentData: undefined,
+        isPlaceholderData: false,
+        isPending: false,
+    };
+}
+
+/**
+ * Creates an updating state object when the data of a previous flow is shown while the current flow is loading.
+ *
+ * @returns An updating state object with placeholder data
+ * @internal
+ */
+function placeholderState(): UpdatingState {
+    return {
+        ...updatingState(),
+        isPlaceholderData: true,
     };
 }
 
@@ -330,13 +762,15 @@ function updatingState(): UpdatingState {
  * @returns An error state object
  * @internal
  */
-function errorState<T>(state: AsyncFlowState<T> & { status: "error" }): ErrorState<T> {
+export function errorState<T>(state: AsyncFlowState<T> & { status: "error" }): ErrorState<T> {
     return {
         isLoading: false,
         isError: true,
         error: state.error,
         isFetching: false,
         currentData: state.data,
+        isPlaceholderData: false,
+        isPending: false,
     };
 }
 
@@ -353,5 +787,7 @@ function skippedState(): SkippedState {
         error: undefined,
         isFetching: false,
         currentData: undefined,
+        isPlaceholderData: false,
+        isPending: false,
     };
 }
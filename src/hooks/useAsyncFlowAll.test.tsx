@@ -0,0 +1,335 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { Suspense, Component, type ReactNode } from "react";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createAsyncFlow } from "@tsip/flow";
+import { useAsyncFlowAll, useAsyncFlowAllSettled, useAsyncFlowRace } from "./useAsyncFlowAll";
+
+describe("useAsyncFlowAll", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const numberFlow = createAsyncFlow({ status: "success", data: 0 });
+            const stringFlow = createAsyncFlow({ status: "success", data: "" });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [all, allState] = useAsyncFlowAll([numberFlow, stringFlow]);
+                expectTypeOf(all).toEqualTypeOf<() => [number, string]>();
+                expectTypeOf(allState.currentData).toEqualTypeOf<[number, string] | undefined>();
+                expectTypeOf(allState.states[0].currentData).toEqualTypeOf<number | undefined>();
+                expectTypeOf(allState.states[1].currentData).toEqualTypeOf<string | undefined>();
+
+                const [settled] = useAsyncFlowAllSettled([numberFlow, stringFlow]);
+                expectTypeOf(settled).toEqualTypeOf<
+                    () => [PromiseSettledResult<number>, PromiseSettledResult<string>]
+                >();
+
+                const [race] = useAsyncFlowRace([numberFlow, stringFlow]);
+                expectTypeOf(race).toEqualTypeOf<() => number | string>();
+            }
+        });
+    });
+
+    describe("useAsyncFlowAll", () => {
+        it("should return data of all flows", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 42 });
+            const flow2 = createAsyncFlow({ status: "success", data: "foo" });
+
+            const { result } = renderHook(() => useAsyncFlowAll([flow1, flow2]));
+            const [data, state] = result.current;
+
+            expect(data()).toEqual([42, "foo"]);
+            expect(state).toMatchObject({
+                isLoading: false,
+                isError: false,
+                isFetching: false,
+                currentData: [42, "foo"],
+            });
+            expect(state.states).toHaveLength(2);
+        });
+
+        it("should load all flows in parallel with a single suspension", async () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "pending" });
+            const spy1 = vi.spyOn(flow1, "asPromise");
+            const spy2 = vi.spyOn(flow2, "asPromise");
+
+            const TestComponent = () => {
+                const [data] = useAsyncFlowAll([flow1, flow2]);
+                const [value1, value2] = data();
+                return <div data-testid="value">{`${String(value1)} ${value2}`}</div>;
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+            expect(spy1).toHaveBeenCalled();
+            expect(spy2).toHaveBeenCalled();
+
+            act(() => {
+                flow1.emit({ status: "success", data: 42 });
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            act(() => {
+                flow2.emit({ status: "success", data: "foo" });
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("42 foo");
+            });
+        });
+
+        it("should throw the same promise on repeated reads", () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "pending" });
+
+            const { result } = renderHook(() => useAsyncFlowAll([flow1, flow2]));
+            const [data] = result.current;
+
+            const read = () => {
+                try {
+                    data();
+                } catch (error) {
+                    return error;
+                }
+            };
+
+            const promise = read();
+            expect(promise).toBeInstanceOf(Promise);
+            expect(read()).toBe(promise);
+        });
+
+        it("should throw the error of a failed flow", () => {
+            const error = new Error("failed");
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "error", error });
+
+            const TestComponent = () => {
+                const [data] = useAsyncFlowAll([flow1, flow2]);
+                data();
+                return null;
+            };
+
+            vi.spyOn(console, "error").mockImplementation(() => {
+                // noop
+            });
+
+            render(
+                <ErrorBoundary fallback={(error) => <div data-testid="error">{String(error)}</div>}>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>
+                </ErrorBoundary>,
+            );
+
+            expect(screen.getByTestId("error")).toHaveTextContent("Error: failed");
+        });
+
+        it("should merge states of all flows", () => {
+            const error = new Error("failed");
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "success", data: "foo" });
+
+            const { result } = renderHook(() => useAsyncFlowAll([flow1, flow2]));
+
+            expect(result.current[1]).toMatchObject({ isLoading: true, isFetching: true, currentData: undefined });
+            expect(result.current[1].states[0]).toMatchObject({ isLoading: true });
+            expect(result.current[1].states[1]).toMatchObject({ isLoading: false, currentData: "foo" });
+
+            act(() => {
+                flow1.emit({ status: "error", error });
+            });
+
+            expect(result.current[1]).toMatchObject({ isLoading: false, isError: true, error });
+
+            act(() => {
+                flow1.emit({ status: "success", data: 42 });
+            });
+
+            expect(result.current[1]).toMatchObject({ isLoading: false, isError: false, currentData: [42, "foo"] });
+
+            act(() => {
+                flow2.emit({ status: "pending" });
+            });
+
+            expect(result.current[1]).toMatchObject({ isLoading: false, isFetching: true });
+        });
+
+        it("should unsubscribe on unmount", () => {
+            const flow1 = createAsyncFlow({ status: "success", data: 42 });
+            const flow2 = createAsyncFlow({ status: "success", data: "foo" });
+            const { unmount } = renderHook(() => useAsyncFlowAll([flow1, flow2]));
+
+            unmount();
+
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(0);
+        });
+    });
+
+    describe("useAsyncFlowAllSettled", () => {
+        it("should return outcomes of all flows", () => {
+            const error = new Error("failed");
+            const flow1 = createAsyncFlow({ status: "success", data: 42 });
+            const flow2 = createAsyncFlow<string>({ status: "error", error });
+
+            const { result } = renderHook(() => useAsyncFlowAllSettled([flow1, flow2]));
+            const [data, state] = result.current;
+
+            expect(data()).toEqual([
+                { status: "fulfilled", value: 42 },
+                { status: "rejected", reason: error },
+            ]);
+            expect(state).toMatchObject({ isLoading: false, isError: true, error });
+            expect(state.currentData).toEqual(data());
+        });
+
+        it("should suspend until all flows are settled", async () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "pending" });
+
+            const TestComponent = () => {
+                const [data] = useAsyncFlowAllSettled([flow1, flow2]);
+                return (
+                    <div data-testid="value">
+                        {data()
+                            .map((result) => result.status)
+                            .join(" ")}
+                    </div>
+                );
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            act(() => {
+                flow1.emit({ status: "error", error: new Error("failed") });
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            act(() => {
+                flow2.emit({ status: "success", data: "foo" });
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("rejected fulfilled");
+            });
+        });
+    });
+
+    describe("useAsyncFlowRace", () => {
+        it("should return data of the first settled flow", () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow({ status: "success", data: "foo" });
+
+            const { result } = renderHook(() => useAsyncFlowRace([flow1, flow2]));
+            const [data, state] = result.current;
+
+            expect(data()).toBe("foo");
+            expect(state).toMatchObject({ isLoading: false, isError: false, currentData: "foo" });
+        });
+
+        it("should suspend until any flow is settled", async () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "pending" });
+
+            const TestComponent = () => {
+                const [data] = useAsyncFlowRace([flow1, flow2]);
+                return <div data-testid="value">{data()}</div>;
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            act(() => {
+                flow2.emit({ status: "success", data: "foo" });
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("foo");
+            });
+        });
+
+        it("should be loading only while no flow is settled", () => {
+            const flow1 = createAsyncFlow<number>({ status: "pending" });
+            const flow2 = createAsyncFlow<string>({ status: "pending" });
+
+            const { result } = renderHook(() => useAsyncFlowRace([flow1, flow2]));
+
+            expect(result.current[1]).toMatchObject({ isLoading: true });
+
+            act(() => {
+                flow1.emit({ status: "success", data: 42 });
+            });
+
+            expect(result.current[1]).toMatchObject({ isLoading: false, isFetching: false, currentData: 42 });
+        });
+
+        it("should merge the state of the flow the accessor reads", () => {
+            const flow1 = createAsyncFlow<number>({ status: "success", data: 42 });
+            const flow2 = createAsyncFlow({ status: "success", data: "foo" });
+
+            const { result } = renderHook(() => {
+                const [data, state] = useAsyncFlowRace([flow1, flow2]);
+                return { value: data(), state };
+            });
+
+            act(() => {
+                flow1.emit({ status: "pending" });
+            });
+
+            expect(result.current.value).toBe(42);
+            expect(result.current.state).toMatchObject({ isLoading: false, isFetching: true });
+            expect(result.current.state).toMatchObject(result.current.state.states[0]);
+        });
+    });
+});
+
+class ErrorBoundary extends Component<
+    { children: ReactNode; fallback: (error: unknown) => ReactNode },
+    { hasError: boolean; error?: unknown }
+> {
+    constructor(props: { children: ReactNode; fallback: (error: unknown) => ReactNode }) {
+        super(props);
+        this.state = { hasError: false };
+    }
+
+    static getDerivedStateFromError(error: unknown) {
+        return { hasError: true, error };
+    }
+
+    render() {
+        if (this.state.hasError) {
+            return this.props.fallback(this.state.error);
+        }
+        return this.props.children;
+    }
+}
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
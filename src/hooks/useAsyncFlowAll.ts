@@ -0,0 +1,365 @@
+import type { AsyncFlow, AsyncFlowState, InferAsyncFlowValue } from "@tsip/types";
+import { useEffect, useMemo } from "react";
+import {
+    errorState,
+    getAsyncFlowState,
+    loadingState,
+    readAsyncFlowState,
+    setPreviousAsyncFlowState,
+    successState,
+    updatingState,
+    type AsyncFlowRead,
+    type UseAsyncFlowAccessor,
+    type UseAsyncFlowState,
+} from "./useAsyncFlow";
+import { useFlows } from "./useFlows";
+import { useIsSsr } from "./useIsSsr";
+import { useShallowStable } from "./useShallowStable";
+
+/**
+ * Maps a tuple of AsyncFlow types to the tuple of their data types.
+ *
+ * @typeParam T - A tuple of AsyncFlow types
+ */
+export type InferAsyncFlowValues<T extends readonly AsyncFlow<unknown>[]> = {
+    -readonly [K in keyof T]: InferAsyncFlowValue<T[K]>;
+};
+
+/**
+ * The merged state of several AsyncFlows returned by {@link useAsyncFlowAll},
+ * {@link useAsyncFlowAllSettled} and {@link useAsyncFlowRace}.
+ *
+ * @typeParam T - The type of the combined data
+ * @typeParam S - The tuple of data types of the individual flows
+ */
+export type UseAsyncFlowCombinedState<T, S extends readonly unknown[]> = UseAsyncFlowState<T> & {
+    /** The states of the individual flows, in the same order as the flows were passed. */
+    states: { -readonly [K in keyof S]: UseAsyncFlowState<S[K]> };
+};
+
+/**
+ * The result type returned by {@link useAsyncFlowAll}, {@link useAsyncFlowAllSettled} and {@link useAsyncFlowRace}.
+ *
+ * @typeParam T - The type of the combined data
+ * @typeParam S - The tuple of data types of the individual flows
+ */
+export type UseAsyncFlowCombinedResult<T, S extends readonly unknown[]> = [
+    UseAsyncFlowAccessor<T>,
+    UseAsyncFlowCombinedState<T, S>,
+];
+
+/**
+ * Describes how the states of several AsyncFlows are combined into one.
+ * @internal
+ */
+interface CombineStrategy<T> {
+    /** Combines the outcomes of reading every flow into the outcome of the combined accessor. */
+    read(reads: AsyncFlowRead<unknown>[]): CombinedRead<T>;
+    /** Combines the promises of the pending flows into the promise the combined accessor suspends on. */
+    wait(promises: Promise<unknown>[]): Promise<unknown>;
+    /** Merges the states of every flow into the combined state. */
+    merge(states: UseAsyncFlowState<unknown>[]): UseAsyncFlowState<T>;
+}
+
+/**
+ * The outcome of the combined accessor, with the promises of the pending flows left to be combined.
+ * @internal
+ */
+type CombinedRead<T> =
+    | Exclude<AsyncFlowRead<T>, { status: "pending" }>
+    | { status: "pending"; promises: Promise<unknown>[] };
+
+/**
+ * Subscribes to several AsyncFlows and returns their combined data, like `Promise.all`.
+ *
+ * The accessor returns the tuple of data once every flow has data. While any flow is loading,
+ * it throws a single promise that resolves when all of them are loaded, so all flows load in
+ * parallel regardless of when the accessor is called. If any flow fails, the accessor throws its error.
+ *
+ * The merged state is loading if any flow is loading and errored if any flow errored.
+ * The state of every individual flow is available in `state.states`.
+ *
+ * @typeParam T - The tuple of AsyncFlow types
+ *
+ * @param flows - The AsyncFlows to subscribe to
+ * @returns The combined accessor and the merged state
+ *
+ * @example
+ * ```tsx
+ * function Dashboard() {
+ *   const [data] = useAsyncFlowAll([userFlow, postsFlow]);
+ *   const [user, posts] = data();
+ *   return <Feed user={user} posts={posts} />;
+ * }
+ * ```
+ */
+export function useAsyncFlowAll<const T extends readonly AsyncFlow<unknown>[]>(
+    flows: T,
+): UseAsyncFlowCombinedResult<InferAsyncFlowValues<T>, InferAsyncFlowValues<T>> {
+    return useAsyncFlowCombination(flows, allStrategy as CombineStrategy<InferAsyncFlowValues<T>>);
+}
+
+/**
+ * Subscribes to several AsyncFlows and returns the outcome of each of them, like `Promise.allSettled`.
+ *
+ * The accessor returns a tuple of `PromiseSettledResult` objects once every flow has either
+ * data or an error. While any flow is loading, it throws a single promise that resolves when
+ * all of them are settled. The accessor never throws flow errors.
+ *
+ * @typeParam T - The tuple of AsyncFlow types
+ *
+ * @param flows - The AsyncFlows to subscribe to
+ * @returns The combined accessor and the merged state
+ *
+ * @example
+ * ```tsx
+ * function Widgets() {
+ *   const [results] = useAsyncFlowAllSettled([weatherFlow, newsFlow]);
+ *   const [weather, news] = results();
+ *   return (
+ *     <>
+ *       {weather.status === "fulfilled" ? <Weather data={weather.value} /> : <WidgetError />}
+ *       {news.status === "fulfilled" ? <News data={news.value} /> : <WidgetError />}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useAsyncFlowAllSettled<const T extends readonly AsyncFlow<unknown>[]>(
+    flows: T,
+): UseAsyncFlowCombinedResult<
+    { -readonly [K in keyof T]: PromiseSettledResult<InferAsyncFlowValue<T[K]>> },
+    InferAsyncFlowValues<T>
+> {
+    return useAsyncFlowCombination(
+        flows,
+        allSettledStrategy as CombineStrategy<{
+            -readonly [K in keyof T]: PromiseSettledResult<InferAsyncFlowValue<T[K]>>;
+        }>,
+    );
+}
+
+/**
+ * Subscribes to several AsyncFlows and returns the outcome of the first settled one, like `Promise.race`.
+ *
+ * The accessor returns the data of the first flow (in the order the flows were passed) that has
+ * data, or throws its error if that flow failed. While no flow is settled, it throws a single
+ * promise that resolves as soon as any of them settles.
+ *
+ * The merged state is the state of the same flow the accessor reads, and is loading while no flow has
+ * data or an error.
+ *
+ * @typeParam T - The tuple of AsyncFlow types
+ *
+ * @param flows - The AsyncFlows to subscribe to
+ * @returns The combined accessor and the merged state
+ *
+ * @example
+ * ```tsx
+ * function Price() {
+ *   const [price] = useAsyncFlowRace([cachedPriceFlow, livePriceFlow]);
+ *   return <span>{price()}</span>;
+ * }
+ * ```
+ */
+export function useAsyncFlowRace<const T extends readonly AsyncFlow<unknown>[]>(
+    flows: T,
+): UseAsyncFlowCombinedResult<InferAsyncFlowValues<T>[number], InferAsyncFlowValues<T>> {
+    return useAsyncFlowCombination(flows, raceStrategy as CombineStrategy<InferAsyncFlowValues<T>[number]>);
+}
+
+/**
+ * Shared implementation of the multi-flow hooks.
+ *
+ * @param flows - The AsyncFlows to subscribe to
+ * @param strategy - How the flows are combined
+ * @returns The combined accessor and the merged state
+ * @internal
+ */
+function useAsyncFlowCombination<T, S extends readonly unknown[]>(
+    flows: readonly AsyncFlow<unknown>[],
+    strategy: CombineStrategy<T>,
+): UseAsyncFlowCombinedResult<T, S> {
+    const stableFlows = useShallowStable(flows);
+    const states = useFlows(stableFlows);
+    const isSsr = useIsSsr();
+
+    useEffect(() => {
+        stableFlows.forEach((flow, index) => {
+            const state = states[index];
+            if (state) {
+                setPreviousAsyncFlowState(flow, state);
+            }
+        });
+    }, [stableFlows, states]);
+
+    const reader = useMemo(() => {
+        // The combined promise is created once per state, so every read throws the same promise
+        let promise: Promise<unknown> | null = null;
+
+        return (): T => {
+            const reads = stableFlows.map((flow, index) => readAsyncFlowState(flow, getState(states, index), isSsr));
+            const read = strategy.read(reads);
+
+            if (read.status === "pending") {
+                promise ??= strategy.wait(read.promises);
+                // eslint-disable-next-line @typescript-eslint/only-throw-error
+                throw promise;
+            }
+
+            if (read.status === "error") {
+                throw read.error;
+            }
+
+            return read.data;
+        };
+    }, [stableFlows, states, isSsr, strategy]);
+
+    const result = useMemo(() => {
+        const flowStates = stableFlows.map((flow, index) => getAsyncFlowState(flow, getState(states, index), isSsr));
+        return { ...strategy.merge(flowStates), states: flowStates } as UseAsyncFlowCombinedState<T, S>;
+    }, [stableFlows, states, isSsr, strategy]);
+
+    return useMemo(() => {
+        return [reader, result];
+    }, [reader, result]);
+}
+
+/**
+ * Returns the state of the flow at the given index.
+ * @internal
+ */
+function getState(states: AsyncFlowState<unknown>[], index: number): AsyncFlowState<unknown> {
+    const state = states[index];
+    if (!state) {
+        throw new Error(`Missing state for async flow at index ${String(index)}`);
+    }
+    return state;
+}
+
+/**
+ * Combines flows like `Promise.all`.
+ * @internal
+ */
+const allStrategy: CombineStrategy<unknown[]> = {
+    read(reads) {
+        const data: unknown[] = [];
+        const promises: Promise<unknown>[] = [];
+
+        for (const read of reads) {
+            if (read.status === "error") {
+                return read;
+            }
+
+            if (read.status === "pending") {
+                promises.push(read.promise);
+            } else {
+                data.push(read.data);
+            }
+        }
+
+        if (promises.length > 0) {
+            return { status: "pending", promises };
+        }
+
+        return { status: "success", data };
+    },
+    wait(promises) {
+        return Promise.all(promises);
+    },
+    merge(states) {
+        const errored = states.find((state) => state.isError);
+        if (errored) {
+            return errorState({ status: "error", error: errored.error });
+        }
+
+        if (states.some((state) => state.isLoading)) {
+            return loadingState();
+        }
+
+        if (states.some((state) => state.isFetching)) {
+            return updatingState();
+        }
+
+        return successState({ status: "success", data: states.map((state) => state.currentData) });
+    },
+};
+
+/**
+ * Combines flows like `Promise.allSettled`.
+ * @internal
+ */
+const allSettledStrategy: CombineStrategy<PromiseSettledResult<unknown>[]> = {
+    read(reads) {
+        const results: PromiseSettledResult<unknown>[] = [];
+        const promises: Promise<unknown>[] = [];
+
+        for (const read of reads) {
+            if (read.status === "pending") {
+                promises.push(read.promise);
+            } else if (read.status === "error") {
+                results.push({ status: "rejected", reason: read.error });
+            } else {
+                results.push({ status: "fulfilled", value: read.data });
+            }
+        }
+
+        if (promises.length > 0) {
+            return { status: "pending", promises };
+        }
+
+        return { status: "success", data: results };
+    },
+    wait(promises) {
+        return Promise.allSettled(promises);
+    },
+    merge(states) {
+        if (states.some((state) => state.isLoading)) {
+            return loadingState();
+        }
+
+        if (states.some((state) => state.isFetching)) {
+            return updatingState();
+        }
+
+        const results = states.map(
+            (state): PromiseSettledResult<unknown> =>
+                state.isError
+                    ? { status: "rejected", reason: state.error }
+                    : { status: "fulfilled", value: state.currentData },
+        );
+
+        const errored = states.find((state) => state.isError);
+        if (errored) {
+            return errorState({ status: "error", error: errored.error, data: results });
+        }
+
+        return successState({ status: "success", data: results });
+    },
+};
+
+/**
+ * Combines flows like `Promise.race`.
+ * @internal
+ */
+const raceStrategy: CombineStrategy<unknown> = {
+    read(reads) {
+        const promises: Promise<unknown>[] = [];
+
+        for (const read of reads) {
+            if (read.status !== "pending") {
+                return read;
+            }
+            promises.push(read.promise);
+        }
+
+        return { status: "pending", promises };
+    },
+    wait(promises) {
+        return Promise.race(promises);
+    },
+    merge(states) {
+        // Like the accessor, picks the first flow that has data or an error, even if it is refetching
+        return states.find((state) => !state.isLoading) ?? loadingState();
+    },
+};
@@ -0,0 +1,278 @@
+import { describe, it, expect, afterEach, vi, expectTypeOf } from "vitest";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { AsyncFlow, AsyncFlowState } from "@tsip/types";
+import { createAsyncFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { useAsyncFlowEffect } from "./useAsyncFlowEffect";
+
+describe("useAsyncFlowEffect", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer callback parameter types", () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                useAsyncFlowEffect(flow, {
+                    onPending: (state, prevState) => {
+                        expectTypeOf(state.data).toEqualTypeOf<number | undefined>();
+                        expectTypeOf(prevState).toEqualTypeOf<AsyncFlowState<number> | null>();
+                    },
+                    onSuccess: (state) => {
+                        expectTypeOf(state.data).toEqualTypeOf<number>();
+                    },
+                    onError: (state) => {
+                        expectTypeOf(state.error).toEqualTypeOf<unknown>();
+                    },
+                    onSettled: (state) => {
+                        expectTypeOf(state.status).toEqualTypeOf<"success" | "error">();
+                    },
+                });
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should call callbacks for the initial state", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+            const onSuccess = vi.fn();
+            const onSettled = vi.fn();
+            const onPending = vi.fn();
+
+            renderHook(() => {
+                useAsyncFlowEffect(flow, { onSuccess, onSettled, onPending });
+            });
+
+            expect(onSuccess).toHaveBeenCalledWith({ status: "success", data: 42 }, null);
+            expect(onSettled).toHaveBeenCalledWith({ status: "success", data: 42 }, null);
+            expect(onPending).not.toHaveBeenCalled();
+        });
+
+        it("should skip the initial state with skipInitial", async () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+            const onSuccess = vi.fn();
+            const onPending = vi.fn();
+
+            renderHook(() => {
+                useAsyncFlowEffect(flow, { onSuccess, onPending, skipInitial: true });
+            });
+
+            expect(onSuccess).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow.emit({ status: "pending", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(onPending).toHaveBeenCalledWith({ status: "pending", data: 42 }, { status: "success", data: 42 });
+        });
+
+        it("should call callbacks once per status transition", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+            const onPending = vi.fn();
+            const onSuccess = vi.fn();
+            const onError = vi.fn();
+            const onSettled = vi.fn();
+            const error = new Error("failed");
+
+            renderHook(() => {
+                useAsyncFlowEffect(flow, { onPending, onSuccess, onError, onSettled });
+            });
+
+            expect(onPending).toHaveBeenCalledTimes(1);
+
+            await act(async () => {
+                flow.emit({ status: "pending", data: 1 });
+                await Promise.resolve();
+            });
+
+            expect(onPending).toHaveBeenCalledTimes(1);
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(onSuccess).toHaveBeenCalledWith({ status: "success", data: 42 }, { status: "pending", data: 1 });
+            expect(onSettled).toHaveBeenCalledTimes(1);
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 108 });
+                await Promise.resolve();
+            });
+
+            expect(onSuccess).toHaveBeenCalledTimes(1);
+
+            await act(async () => {
+                flow.emit({ status: "error", error, data: 108 });
+                await Promise.resolve();
+            });
+
+            expect(onError).toHaveBeenCalledWith(
+                { status: "error", error, data: 108 },
+                { status: "success", data: 108 },
+            );
+            expect(onSettled).toHaveBeenCalledTimes(2);
+        });
+
+        it("should not lose transitions emitted in the same task", async () => {
+            const flow = createAsyncFlow({ status: "success", data: 1 });
+            const calls: string[] = [];
+
+            renderHook(() => {
+                useAsyncFlowEffect(flow, {
+                    onPending: () => {
+                        calls.push("pending");
+                    },
+                    onSuccess: (state) => {
+                        calls.push(`success ${String(state.data)}`);
+                    },
+                    skipInitial: true,
+                });
+            });
+
+            await act(async () => {
+                flow.emit({ status: "pending", data: 1 });
+                flow.emit({ status: "success", data: 2 });
+                await Promise.resolve();
+            });
+
+            expect(calls).toEqual(["pending", "success 2"]);
+        });
+
+        it("should use latest callbacks without resubscribing", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+            const onSuccess1 = vi.fn();
+            const onSuccess2 = vi.fn();
+            const subscribe = vi.spyOn(flow, "subscribe");
+
+            const { rerender } = renderHook(
+                (onSuccess: () => void) => {
+                    useAsyncFlowEffect(flow, { onSuccess });
+                },
+                { initialProps: onSuccess1 },
+            );
+
+            rerender(onSuccess2);
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(onSuccess1).not.toHaveBeenCalled();
+            expect(onSuccess2).toHaveBeenCalledTimes(1);
+            expect(subscribe).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("cleanup behavior", () => {
+        it("should call cleanup functions before the next transition", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+            const pendingCleanup = vi.fn();
+            const successCleanup = vi.fn();
+            const settledCleanup = vi.fn();
+
+            renderHook(() => {
+                useAsyncFlowEffect(flow, {
+                    onPending: () => pendingCleanup,
+                    onSuccess: () => successCleanup,
+                    onSettled: () => settledCleanup,
+                });
+            });
+
+            await act(async () => {
+                flow.emit({ status: "pending", data: 1 });
+                await Promise.resolve();
+            });
+
+            expect(pendingCleanup).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(pendingCleanup).toHaveBeenCalledTimes(1);
+            expect(successCleanup).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow.emit({ status: "pending", data: 42 });
+                await Promise.resolve();
+            });
+
+            expect(successCleanup).toHaveBeenCalledTimes(1);
+            expect(settledCleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it("should call cleanup functions on unmount", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+            const cleanupFn = vi.fn();
+
+            const { unmount } = renderHook(() => {
+                useAsyncFlowEffect(flow, { onSuccess: () => cleanupFn });
+            });
+
+            unmount();
+
+            expect(cleanupFn).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not call callbacks after unmount", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+            const onSuccess = vi.fn();
+
+            const { unmount } = renderHook(() => {
+                useAsyncFlowEffect(flow, { onSuccess });
+            });
+
+            flow.emit({ status: "success", data: 42 });
+            unmount();
+            await Promise.resolve();
+
+            expect(onSuccess).not.toHaveBeenCalled();
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should not call callbacks when flow is skipToken", () => {
+            const onPending = vi.fn();
+
+            renderHook(() => {
+                useAsyncFlowEffect(skipToken, { onPending });
+            });
+
+            expect(onPending).not.toHaveBeenCalled();
+        });
+
+        it("should handle switching from skipToken to real flow", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+            const onSuccess = vi.fn();
+
+            const { rerender } = renderHook(
+                (flow: AsyncFlow<number> | SkipToken) => {
+                    useAsyncFlowEffect(flow, { onSuccess });
+                },
+                { initialProps: skipToken as AsyncFlow<number> | SkipToken },
+            );
+
+            expect(onSuccess).not.toHaveBeenCalled();
+
+            rerender(flow);
+
+            expect(onSuccess).toHaveBeenCalledWith({ status: "success", data: 42 }, null);
+            expect(getSubscriptionsCount(flow)).toBe(1);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: AsyncFlow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
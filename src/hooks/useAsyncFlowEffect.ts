@@ -0,0 +1,198 @@
+import type { AsyncFlow, AsyncFlowState, InferAsyncFlowValue } from "@tsip/types";
+import { useEffect, useRef } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A callback of {@link useAsyncFlowEffect}, called when an AsyncFlow enters one of the given statuses.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @typeParam S - The statuses the callback is called for
+ *
+ * @param state - The state the flow has entered
+ * @param prevState - The last state of the flow before the transition, or `null` for the initial call
+ * @returns An optional cleanup function, called before the next transition or on unmount
+ */
+export type AsyncFlowTransitionHandler<T, S extends AsyncFlowState<T>["status"]> = (
+    state: Extract<AsyncFlowState<T>, { status: S }>,
+    prevState: AsyncFlowState<T> | null,
+    // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => (() => void) | void;
+
+/**
+ * Callbacks and options for {@link useAsyncFlowEffect}.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ */
+export interface UseAsyncFlowEffectHandlers<T> {
+    /**
+     * Called when the flow starts loading.
+     */
+    onPending?: AsyncFlowTransitionHandler<T, "pending">;
+
+    /**
+     * Called when the flow loads successfully.
+     */
+    onSuccess?: AsyncFlowTransitionHandler<T, "success">;
+
+    /**
+     * Called when the flow fails.
+     */
+    onError?: AsyncFlowTransitionHandler<T, "error">;
+
+    /**
+     * Called when the flow either loads successfully or fails, after `onSuccess` and `onError`.
+     */
+    onSettled?: AsyncFlowTransitionHandler<T, "success" | "error">;
+
+    /**
+     * Skips the callbacks for the current state on subscription, so they only run on transitions.
+     */
+    skipInitial?: boolean;
+}
+
+/**
+ * Subscribes to an AsyncFlow and runs callbacks when its status changes.
+ *
+ * A transition is a change of the `status` field: emits that keep the status, such as a pending
+ * state followed by a pending state with data, do not call any callback. Every transition calls its
+ * callbacks exactly once, even if the flow passes through several statuses in the same task.
+ * The callbacks for the current state are called on mount with `null` as the previous state,
+ * unless `skipInitial` is set.
+ *
+ * Like with {@link useFlowEffect}, callbacks are called in a microtask, the latest callbacks are
+ * always used without resubscribing, and cleanup functions returned by the callbacks are called
+ * before the callbacks of the next transition or on unmount.
+ *
+ * @typeParam T - The type of the AsyncFlow
+ *
+ * @param flow - The AsyncFlow instance to subscribe to, a scoped AsyncFlow, or `skipToken` to skip subscription
+ * @param handlers - Callbacks for the statuses of the flow
+ *
+ * @example
+ * ```tsx
+ * function SaveNotifications() {
+ *   useAsyncFlowEffect(saveFlow, {
+ *     onSuccess: () => toast.success("Saved"),
+ *     onError: (state) => toast.error(String(state.error)),
+ *     skipInitial: true,
+ *   });
+ *   return null;
+ * }
+ * ```
+ *
+ * @example
+ * Cleanup functions:
+ * ```tsx
+ * function LoadingIndicator() {
+ *   useAsyncFlowEffect(userFlow, {
+ *     onPending: () => {
+ *       const timer = setTimeout(showSpinner, 300);
+ *       return () => clearTimeout(timer);
+ *     },
+ *   });
+ *   return null;
+ * }
+ * ```
+ */
+export function useAsyncFlowEffect<T extends AsyncFlow<unknown>>(
+    source: T | ScopedFlow<T> | SkipToken,
+    handlers: UseAsyncFlowEffectHandlers<InferAsyncFlowValue<T>>,
+): void {
+    type Data = InferAsyncFlowValue<T>;
+
+    const flow = useResolvedFlow(source);
+
+    const skipInitial = handlers.skipInitial ?? false;
+    const handlersRef = useRef(handlers);
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    }, [handlers]);
+
+    useEffect(() => {
+        if (flow === skipToken) {
+            return;
+        }
+
+        const asyncFlow = flow as AsyncFlow<Data>;
+
+        let cancelled = false;
+        let teardowns: (() => void)[] = [];
+        const transitions: [AsyncFlowState<Data>, AsyncFlowState<Data> | null][] = [];
+
+        const runTeardowns = () => {
+            const current = teardowns;
+            teardowns = [];
+            current.forEach((teardown) => {
+                teardown();
+            });
+        };
+
+        const flush = () => {
+            if (cancelled) return;
+
+            transitions.splice(0).forEach(([state, prevState]) => {
+                runTeardowns();
+                teardowns = callAsyncFlowHandlers(handlersRef.current, state, prevState);
+            });
+        };
+
+        let prevState = asyncFlow.getSnapshot();
+        if (!skipInitial) {
+            teardowns = callAsyncFlowHandlers(handlersRef.current, prevState, null);
+        }
+
+        const sub = asyncFlow.subscribe(() => {
+            const state = asyncFlow.getSnapshot();
+            const isTransition = state.status !== prevState.status;
+
+            // Transitions are detected on every emit, so none is lost when several emits are batched
+            if (isTransition) {
+                transitions.push([state, prevState]);
+                if (transitions.length === 1) {
+                    queueMicrotask(flush);
+                }
+            }
+
+            prevState = state;
+        });
+
+        return () => {
+            sub.unsubscribe();
+            cancelled = true;
+            runTeardowns();
+        };
+    }, [flow, skipInitial]);
+}
+
+/**
+ * Calls the callbacks for the status of the given state.
+ *
+ * @returns The cleanup functions returned by the callbacks
+ * @internal
+ */
+function callAsyncFlowHandlers<T>(
+    handlers: UseAsyncFlowEffectHandlers<T>,
+    state: AsyncFlowState<T>,
+    prevState: AsyncFlowState<T> | null,
+): (() => void)[] {
+    const results = [];
+
+    switch (state.status) {
+        case "pending":
+            results.push(handlers.onPending?.(state, prevState));
+            break;
+        case "success":
+            results.push(handlers.onSuccess?.(state, prevState));
+            results.push(handlers.onSettled?.(state, prevState));
+            break;
+        case "error":
+            results.push(handlers.onError?.(state, prevState));
+            results.push(handlers.onSettled?.(state, prevState));
+            break;
+    }
+
+    return results.filter((result) => typeof result === "function");
+}
@@ -0,0 +1,348 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { StrictMode, Suspense } from "react";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import { createFlow } from "@tsip/flow";
+import { skipToken } from "../skipToken";
+import type { SkippedState, UseAsyncFlowResult } from "./useAsyncFlow";
+import { useAsyncSource } from "./useAsyncSource";
+
+describe("useAsyncSource", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const promise = Promise.resolve(0);
+            const iterable = createChannel<string>().iterable;
+            const flow = createFlow(Promise.resolve(true));
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useAsyncSource(promise)).toEqualTypeOf<UseAsyncFlowResult<number, null>>();
+                expectTypeOf(useAsyncSource(iterable)).toEqualTypeOf<UseAsyncFlowResult<string, null>>();
+                expectTypeOf(useAsyncSource(flow)).toEqualTypeOf<UseAsyncFlowResult<boolean, null>>();
+                expectTypeOf(useAsyncSource(promise, { select: (value) => String(value) })).toEqualTypeOf<
+                    UseAsyncFlowResult<string, null>
+                >();
+                expectTypeOf(useAsyncSource(skipToken)).toEqualTypeOf<[null, SkippedState, null]>();
+            }
+        });
+    });
+
+    describe("promise source", () => {
+        it("should suspend until the promise resolves", async () => {
+            const { promise, resolve } = createDeferred<string>();
+
+            const TestComponent = () => {
+                const [data] = useAsyncSource(promise);
+                return <div data-testid="value">{data()}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                resolve("loaded");
+                await promise;
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("loaded");
+            });
+        });
+
+        it("should share the state of the same promise", async () => {
+            const promise = Promise.resolve(42);
+
+            const { result: first } = renderHook(() => useAsyncSource(promise));
+
+            await act(async () => {
+                await promise;
+            });
+
+            const { result: second } = renderHook(() => useAsyncSource(promise));
+
+            expect(first.current[0]()).toBe(42);
+            expect(second.current[0]()).toBe(42);
+            expect(second.current[1].isLoading).toBe(false);
+            expect(second.current[2]).toBeNull();
+        });
+
+        it("should return error state when the promise rejects", async () => {
+            const error = new Error("failed");
+            const promise = Promise.reject(error);
+
+            const { result } = renderHook(() => useAsyncSource(promise));
+
+            await act(async () => {
+                await promise.catch(() => {
+                    // handled by the hook
+                });
+            });
+
+            expect(result.current[1]).toMatchObject({ isError: true, error });
+            expect(() => result.current[0]()).toThrow(error);
+        });
+    });
+
+    describe("async iterable source", () => {
+        it("should update data with every value", async () => {
+            const channel = createChannel<number>();
+
+            const { result } = renderHook(() => useAsyncSource(channel.iterable));
+
+            expect(result.current[1].isLoading).toBe(true);
+
+            await act(async () => {
+                await channel.push(1);
+            });
+
+            expect(result.current[0]()).toBe(1);
+
+            await act(async () => {
+                await channel.push(2);
+            });
+
+            expect(result.current[0]()).toBe(2);
+        });
+
+        it("should keep the last value when the iterable fails", async () => {
+            const error = new Error("failed");
+            const channel = createChannel<number>();
+
+            const { result } = renderHook(() => useAsyncSource(channel.iterable));
+
+            await act(async () => {
+                await channel.push(1);
+            });
+
+            await act(async () => {
+                await channel.fail(error);
+            });
+
+            expect(result.current[1]).toMatchObject({ isError: true, error, currentData: 1 });
+        });
+
+        it("should iterate only while the source is read", async () => {
+            const channel = createChannel<number>();
+
+            const { result, unmount } = renderHook(() => useAsyncSource(channel.iterable));
+
+            expect(channel.stats).toEqual({ opened: 1, closed: 0 });
+
+            await act(async () => {
+                await channel.push(1);
+            });
+
+            unmount();
+            await Promise.resolve();
+
+            expect(channel.stats).toEqual({ opened: 1, closed: 1 });
+
+            const { result: next } = renderHook(() => useAsyncSource(channel.iterable));
+
+            expect(channel.stats).toEqual({ opened: 2, closed: 1 });
+            expect(result.current[0]()).toBe(1);
+            expect(next.current[0]()).toBe(1);
+
+            await act(async () => {
+                await channel.push(2);
+            });
+
+            expect(next.current[0]()).toBe(2);
+        });
+
+        it("should iterate async generators until they complete", async () => {
+            const channel = createChannel<number>();
+            let isClosed = false;
+
+            async function* generate() {
+                try {
+                    yield* channel.iterable;
+                } finally {
+                    isClosed = true;
+                }
+            }
+
+            const source = generate();
+            const { result, unmount } = renderHook(() => useAsyncSource(source));
+
+            await act(async () => {
+                await channel.push(1);
+            });
+
+            await waitFor(() => {
+                expect(result.current[0]()).toBe(1);
+            });
+
+            unmount();
+
+            await act(async () => {
+                await channel.push(2);
+            });
+
+            expect(isClosed).toBe(false);
+
+            const { result: next } = renderHook(() => useAsyncSource(source));
+
+            await waitFor(() => {
+                expect(next.current[0]()).toBe(2);
+            });
+
+            await act(async () => {
+                await channel.push(3);
+            });
+
+            await waitFor(() => {
+                expect(next.current[0]()).toBe(3);
+            });
+        });
+
+        it("should keep the iteration when resubscribed in StrictMode", async () => {
+            const channel = createChannel<number>();
+
+            const { result } = renderHook(() => useAsyncSource(channel.iterable), { wrapper: StrictMode });
+
+            await act(async () => {
+                await channel.push(1);
+            });
+
+            expect(channel.stats).toEqual({ opened: 1, closed: 0 });
+            expect(result.current[0]()).toBe(1);
+        });
+    });
+
+    describe("flow of promises source", () => {
+        it("should follow the latest promise of the flow", async () => {
+            const first = createDeferred<string>();
+            const second = createDeferred<string>();
+            const flow = createFlow(first.promise);
+
+            const { result } = renderHook(() => useAsyncSource(flow));
+
+            await act(async () => {
+                first.resolve("first");
+                await first.promise;
+            });
+
+            expect(result.current[0]()).toBe("first");
+
+            act(() => {
+                flow.emit(second.promise);
+            });
+
+            expect(result.current[0]()).toBe("first");
+            expect(result.current[1]).toMatchObject({ isLoading: false, isFetching: true });
+
+            await act(async () => {
+                second.resolve("second");
+                await second.promise;
+            });
+
+            expect(result.current[0]()).toBe("second");
+            expect(result.current[1].isFetching).toBe(false);
+        });
+
+        it("should ignore promises replaced by newer ones", async () => {
+            const first = createDeferred<string>();
+            const second = createDeferred<string>();
+            const flow = createFlow(first.promise);
+
+            const { result } = renderHook(() => useAsyncSource(flow));
+
+            act(() => {
+                flow.emit(second.promise);
+            });
+
+            await act(async () => {
+                second.resolve("second");
+                await second.promise;
+            });
+
+            await act(async () => {
+                first.resolve("first");
+                await first.promise;
+            });
+
+            expect(result.current[0]()).toBe("second");
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return skipped state when skipToken is passed", () => {
+            const { result } = renderHook(() => useAsyncSource(skipToken));
+
+            expect(result.current[0]).toBeNull();
+            expect(result.current[1]).toMatchObject({ isLoading: false, currentData: undefined });
+        });
+    });
+});
+
+/**
+ * Creates a promise resolved by the test.
+ */
+function createDeferred<T>() {
+    let resolve: (value: T) => void = () => undefined;
+    let reject: (error: Error) => void = () => undefined;
+
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+
+    return { promise, resolve, reject };
+}
+
+/**
+ * Creates an async iterable controlled by the test.
+ */
+function createChannel<T>() {
+    let next = createDeferred<IteratorResult<T>>();
+    const stats = { opened: 0, closed: 0 };
+
+    const iterable: AsyncIterable<T> = {
+        [Symbol.asyncIterator]: () => {
+            stats.opened++;
+            return {
+                next: () => next.promise,
+                return: () => {
+                    stats.closed++;
+                    return Promise.resolve({ value: undefined, done: true });
+                },
+            };
+        },
+    };
+
+    const settle = async (settle: (current: ReturnType<typeof createDeferred<IteratorResult<T>>>) => void) => {
+        const current = next;
+        next = createDeferred<IteratorResult<T>>();
+        settle(current);
+        await current.promise.catch(() => {
+            // handled by the iteration
+        });
+        // Let the iteration process the value
+        await Promise.resolve();
+    };
+
+    return {
+        iterable,
+        stats,
+        push: (value: T) =>
+            settle((current) => {
+                current.resolve({ value, done: false });
+            }),
+        fail: (error: Error) =>
+            settle((current) => {
+                current.reject(error);
+            }),
+    };
+}
@@ -0,0 +1,61 @@
+import { skipToken, type SkipToken } from "../skipToken";
+import { getAsyncSourceFlow, type AsyncSource, type InferAsyncSourceValue } from "../flows/asyncSource";
+import { useAsyncFlow, type SkippedState, type UseAsyncFlowOptions, type UseAsyncFlowResult } from "./useAsyncFlow";
+
+/**
+ * Subscribes to a promise, an async iterable or a Flow of promises and returns its current state,
+ * like {@link useAsyncFlow} does for an AsyncFlow.
+ *
+ * The source is adapted to an AsyncFlow cached by the source identity, so the same source always gives
+ * the same state across renders and components, and Suspense and Error Boundaries work the same way.
+ * Keep the source stable: a promise created during render is a new source on every render.
+ *
+ * - A promise is pending until it settles
+ * - An async iterable is pending until its first value, and every next value updates the data.
+ *   It is iterated from the first render that reads it. When the last component unmounts, the iterator
+ *   is closed and the next reader iterates the iterable again, unless the iterable is its own iterator,
+ *   like an async generator, which is iterated until it completes.
+ * - A Flow of promises follows its latest promise, keeping the previous data while the new promise is pending
+ *
+ * @typeParam T - The type of the source
+ * @typeParam S - The type of data returned by the `select` option
+ *
+ * @param source - The source to read, or `skipToken` to skip subscription
+ * @param options - The same options as for {@link useAsyncFlow}
+ * @returns The same result as {@link useAsyncFlow}. Sources can't be refetched, so the controls are `null`.
+ *
+ * @example
+ * ```tsx
+ * const userPromise = sdk.getUser();
+ *
+ * function UserName() {
+ *   const [user] = useAsyncSource(userPromise);
+ *   return <span>{user().name}</span>;
+ * }
+ * ```
+ *
+ * @example
+ * Async iterable:
+ * ```tsx
+ * function Price({ ticker }: { ticker: Ticker }) {
+ *   const [price] = useAsyncSource(ticker.prices);
+ *   return <span>{price()}</span>;
+ * }
+ * ```
+ */
+export function useAsyncSource(source: SkipToken, options?: UseAsyncFlowOptions): [null, SkippedState, null];
+export function useAsyncSource<T extends AsyncSource<unknown>, S = InferAsyncSourceValue<T>>(
+    source: T,
+    options?: UseAsyncFlowOptions<InferAsyncSourceValue<T>, S>,
+): UseAsyncFlowResult<S, null>;
+export function useAsyncSource<T extends AsyncSource<unknown>, S = InferAsyncSourceValue<T>>(
+    source: T | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncSourceValue<T>, S>,
+): UseAsyncFlowResult<S, null> | [null, SkippedState, null];
+export function useAsyncSource<T extends AsyncSource<unknown>, S>(
+    source: T | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncSourceValue<T>, S>,
+): UseAsyncFlowResult<S> | [null, SkippedState, null] {
+    const flow = source === skipToken ? skipToken : getAsyncSourceFlow(source as AsyncSource<InferAsyncSourceValue<T>>);
+    return useAsyncFlow(flow, options);
+}
@@ -0,0 +1,401 @@
+import { Writable } from "stream";
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { StrictMode, Suspense, type ReactElement, type ReactNode } from "react";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import { renderToPipeableStream } from "react-dom/server";
+import type { AsyncFlow, Flow, MutableFlow } from "@tsip/types";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
+import type { FlowHydrationManager } from "../hydration/types";
+import { useAsyncFlow } from "./useAsyncFlow";
+import { useFlow } from "./useFlow";
+import { useCreateAsyncFlow, useCreateFlow } from "./useCreateFlow";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+const originalWindow = globalThis.window;
+
+describe("useCreateFlow", () => {
+    afterEach(() => {
+        cleanup();
+        globalThis.window = originalWindow;
+        delete window._FS_;
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useCreateFlow(0)).toEqualTypeOf<MutableFlow<number>>();
+                expectTypeOf(useCreateFlow(() => "value")).toEqualTypeOf<MutableFlow<string>>();
+                expectTypeOf(useCreateFlow<string | null>(null)).toEqualTypeOf<MutableFlow<string | null>>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should create the flow once per mount", () => {
+            const initialValue = vi.fn(() => 1);
+
+            const { result, rerender } = renderHook(() => useCreateFlow(initialValue));
+            const flow = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(flow);
+            expect(flow.getSnapshot()).toBe(1);
+            expect(initialValue).toHaveBeenCalledTimes(1);
+        });
+
+        it("should pass the flow to child components", () => {
+            const flows = new Set<MutableFlow<string>>();
+
+            const Child = ({ flow }: { flow: Flow<string> }) => {
+                return <div data-testid="value">{useFlow(flow)}</div>;
+            };
+
+            const Parent = () => {
+                const flow = useCreateFlow("initial");
+                flows.add(flow);
+                return <Child flow={flow.asFlow()} />;
+            };
+
+            render(<Parent />);
+
+            expect(screen.getByTestId("value")).toHaveTextContent("initial");
+
+            act(() => {
+                flows.values().next().value?.emit("updated");
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("updated");
+        });
+
+        it("should keep the flow in StrictMode", () => {
+            const flows = new Set<MutableFlow<number>>();
+
+            const Child = ({ flow }: { flow: Flow<number> }) => {
+                return <div data-testid="value">{useFlow(flow)}</div>;
+            };
+
+            const Parent = () => {
+                const flow = useCreateFlow(0);
+                flows.add(flow);
+                return <Child flow={flow} />;
+            };
+
+            render(
+                <StrictMode>
+                    <Parent />
+                </StrictMode>,
+            );
+
+            expect(flows.size).toBe(1);
+
+            act(() => {
+                flows.values().next().value?.emit(1);
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("1");
+        });
+
+        it("should drop subscriptions on unmount", () => {
+            const listener = vi.fn();
+
+            const { result, unmount } = renderHook(() => useCreateFlow(0));
+            result.current.subscribe(listener);
+
+            unmount();
+            result.current.emit(1);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should seed the client flow with the server value", async () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const serverManager = createServerHydrationManager();
+
+            const App = ({ value }: { value: string }) => {
+                const flow = useCreateFlow(() => value);
+                return <div data-testid="value">{flow.getSnapshot()}</div>;
+            };
+
+            const { html } = await renderToString(
+                <FlowHydrationProvider manager={serverManager}>
+                    <App value="server value" />
+                </FlowHydrationProvider>,
+                serverManager,
+            );
+
+            globalThis.window = originalWindow;
+
+            const hydrationContainer = document.createElement("div");
+            hydrationContainer.innerHTML = html;
+            document.body.appendChild(hydrationContainer);
+            runScripts(hydrationContainer);
+
+            const clientManager = createClientHydrationManager();
+
+            render(
+                <FlowHydrationProvider manager={clientManager}>
+                    <App value="client value" />
+                </FlowHydrationProvider>,
+                {
+                    container: hydrationContainer,
+                    hydrate: true,
+                },
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("server value");
+        });
+    });
+});
+
+describe("useCreateAsyncFlow", () => {
+    afterEach(() => {
+        cleanup();
+        globalThis.window = originalWindow;
+        delete window._FS_;
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useCreateAsyncFlow(() => Promise.resolve(0))).toEqualTypeOf<AsyncFlow<number>>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should load data with the loader", async () => {
+            let resolve: (value: string) => void = () => undefined;
+            const promise = new Promise<string>((res) => {
+                resolve = res;
+            });
+            const loader = vi.fn(() => promise);
+
+            const Child = ({ flow }: { flow: AsyncFlow<string> }) => {
+                const [data] = useAsyncFlow(flow);
+                return <div data-testid="value">{data()}</div>;
+            };
+
+            const Parent = () => {
+                const flow = useCreateAsyncFlow(loader);
+                return (
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <Child flow={flow} />
+                    </Suspense>
+                );
+            };
+
+            await act(async () => {
+                render(<Parent />);
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                resolve("loaded");
+                await promise;
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("loaded");
+            });
+            expect(loader).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not call the loader until the flow is read", () => {
+            const loader = vi.fn(() => Promise.resolve(1));
+
+            renderHook(() => useCreateAsyncFlow(loader));
+
+            expect(loader).not.toHaveBeenCalled();
+        });
+
+        it("should return error state when the loader fails", async () => {
+            const error = new Error("failed");
+
+            const { result } = renderHook(() => {
+                const flow = useCreateAsyncFlow(() => Promise.reject(error));
+                return useAsyncFlow(flow);
+            });
+
+            await act(async () => {
+                await Promise.resolve();
+            });
+
+            expect(result.current[1]).toMatchObject({ isError: true, error });
+        });
+
+        it("should abort the loader on unmount", () => {
+            let signal: AbortSignal | null = null;
+
+            const { result, unmount } = renderHook(() =>
+                useCreateAsyncFlow((loaderSignal) => {
+                    signal = loaderSignal;
+                    return new Promise<number>(() => {
+                        // never resolves
+                    });
+                }),
+            );
+
+            result.current.getSnapshot();
+            expect(signal).toHaveProperty("aborted", false);
+
+            unmount();
+
+            expect(signal).toHaveProperty("aborted", true);
+            expect(result.current.getSnapshot()).toEqual({ status: "pending" });
+        });
+
+        it("should load data in StrictMode", async () => {
+            const Child = ({ flow }: { flow: AsyncFlow<string> }) => {
+                const [, state] = useAsyncFlow(flow);
+                return <div data-testid="value">{state.currentData ?? "loading"}</div>;
+            };
+
+            const Parent = () => {
+                const flow = useCreateAsyncFlow(() => Promise.resolve("loaded"));
+                return <Child flow={flow} />;
+            };
+
+            render(
+                <StrictMode>
+                    <Parent />
+                </StrictMode>,
+            );
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("loaded");
+            });
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should seed the client flow with the data loaded on the server", async () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const serverManager = createServerHydrationManager();
+
+            const Child = ({ flow }: { flow: AsyncFlow<string> }) => {
+                const [data] = useAsyncFlow(flow);
+                return <div data-testid="value">{data()}</div>;
+            };
+
+            const App = ({ manager, children }: { manager: FlowHydrationManager; children: ReactNode }) => {
+                return (
+                    <FlowHydrationProvider manager={manager}>
+                        <main>{children}</main>
+                    </FlowHydrationProvider>
+                );
+            };
+
+            const Parent = ({ loader }: { loader: () => Promise<string> }) => {
+                const flow = useCreateAsyncFlow(loader);
+                return (
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <Child flow={flow} />
+                    </Suspense>
+                );
+            };
+
+            const { html } = await renderToString(
+                <App manager={serverManager}>
+                    <Parent loader={() => Promise.resolve("server value")} />
+                </App>,
+                serverManager,
+            );
+
+            globalThis.window = originalWindow;
+
+            const hydrationContainer = document.createElement("div");
+            hydrationContainer.innerHTML = html;
+            document.body.appendChild(hydrationContainer);
+            runScripts(hydrationContainer);
+
+            const clientManager = createClientHydrationManager();
+            const clientLoader = vi.fn(() => Promise.resolve("client value"));
+
+            render(
+                <App manager={clientManager}>
+                    <Parent loader={clientLoader} />
+                </App>,
+                {
+                    container: hydrationContainer,
+                    hydrate: true,
+                },
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("server value");
+
+            // wait for hydration
+            await new Promise((r) => setTimeout(r, 100));
+
+            expect(screen.getByTestId("value")).toHaveTextContent("server value");
+            expect(clientLoader).not.toHaveBeenCalled();
+        });
+    });
+});
+
+async function renderToString(element: ReactElement, manager: FlowHydrationManager) {
+    const html = await new Promise<string>((resolve, reject) => {
+        let content = "";
+
+        const htmlStream = new Writable({
+            write(chunk: Buffer, encoding, callback) {
+                content += getHydrationScripts(manager);
+                content += chunk.toString();
+                callback();
+            },
+        });
+
+        let didError = false;
+        const stream = renderToPipeableStream(element, {
+            onShellReady() {
+                stream.pipe(htmlStream);
+            },
+            onShellError(error) {
+                // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+                reject(error);
+            },
+            onError(err) {
+                didError = true;
+                console.error(err);
+            },
+        });
+
+        htmlStream.on("finish", () => {
+            expect(didError).toBe(false);
+            resolve(content);
+        });
+
+        htmlStream.on("error", (err) => {
+            reject(err);
+        });
+    });
+
+    return { html };
+}
+
+function getHydrationScripts(manager: FlowHydrationManager) {
+    const script = manager.getScript();
+    if (!script) return "";
+    return `<script>${script}</script>`;
+}
+
+function runScripts(node: HTMLElement) {
+    node.querySelectorAll("script").forEach((script) => {
+        (0, eval)(script.textContent);
+    });
+}
@@ -0,0 +1,192 @@
+import type { AsyncFlow, AsyncFlowState, MutableFlow } from "@tsip/types";
+import { useEffect, useId, useState } from "react";
+import { useHydration } from "../hydration/context";
+import { createAsyncFlowStore } from "../flows/asyncFlowStore";
+import { createLocalFlow } from "../flows/localFlow";
+
+/**
+ * Creates a Flow owned by the component instance.
+ *
+ * The flow is created once per mount, like state created with `useState`, and can be passed down
+ * to child components that read it with {@link useFlow} and other hooks. On unmount the flow is
+ * disposed and drops all its subscriptions.
+ *
+ * During SSR the initial value is sent to the client through the {@link FlowHydrationManager},
+ * so the hydrated component starts from the value rendered on the server.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param initialValue - The initial value of the Flow, or a function that returns it
+ * @returns A mutable Flow that keeps its identity for the lifetime of the component
+ *
+ * @example
+ * ```tsx
+ * function Editor() {
+ *   const selectionFlow = useCreateFlow<Selection | null>(null);
+ *
+ *   return (
+ *     <>
+ *       <Toolbar selectionFlow={selectionFlow} />
+ *       <Canvas onSelect={(selection) => selectionFlow.emit(selection)} />
+ *     </>
+ *   );
+ * }
+ *
+ * function Toolbar({ selectionFlow }: { selectionFlow: Flow<Selection | null> }) {
+ *   const selection = useFlow(selectionFlow);
+ *   return <FormatButtons disabled={!selection} />;
+ * }
+ * ```
+ */
+export function useCreateFlow<T>(initialValue: T | (() => T)): MutableFlow<T> {
+    const flowId = useId();
+    const hydration = useHydration();
+
+    const [flow] = useState(() => {
+        const serverValue = hydration?.hydrate(flowId);
+        const value = serverValue
+            ? (serverValue.value as T)
+            : typeof initialValue === "function"
+              ? (initialValue as () => T)()
+              : initialValue;
+
+        const flow = createLocalFlow(value);
+        hydration?.register(flowId, flow, value);
+        return flow;
+    });
+
+    useEffect(() => {
+        return () => {
+            flow.dispose();
+        };
+    }, [flow]);
+
+    return flow;
+}
+
+/**
+ * Creates an AsyncFlow owned by the component instance that loads its data with a loader.
+ *
+ * The flow is created once per mount and the loader is called once, when the flow is read for the first time.
+ * Read the flow in child components with {@link useAsyncFlow}: the owner component must not suspend on its
+ * own flow, because React discards the state of components that suspend before they mount.
+ *
+ * On unmount the flow is disposed: the signal passed to the loader is aborted and all subscriptions are dropped.
+ * If the flow is mounted again before the data is loaded, as in StrictMode, the loader is called again.
+ *
+ * During SSR the loaded data is sent to the client through the {@link FlowHydrationManager}, so the hydrated
+ * component starts from the data loaded on the server without calling the loader.
+ *
+ * @typeParam T - The type of data loaded by the AsyncFlow
+ * @param loader - Loads the data of the flow. Receives an AbortSignal that is aborted on unmount.
+ * @returns An AsyncFlow that keeps its identity for the lifetime of the component
+ *
+ * @example
+ * ```tsx
+ * function ProductPage({ id }: { id: string }) {
+ *   const productFlow = useCreateAsyncFlow((signal) => api.getProduct(id, { signal }));
+ *
+ *   return (
+ *     <Suspense fallback={<Spinner />}>
+ *       <ProductDetails productFlow={productFlow} />
+ *     </Suspense>
+ *   );
+ * }
+ * ```
+ */
+export function useCreateAsyncFlow<T>(loader: (signal: AbortSignal) => PromiseLike<T>): AsyncFlow<T> {
+    const flowId = useId();
+    const hydration = useHydration();
+
+    const [flow] = useState(() => {
+        const serverState = hydration?.hydrate(flowId);
+
+        const flow: LocalAsyncFlow<T> = createLocalAsyncFlow(
+            loader,
+            serverState?.value as AsyncFlowState<T> | undefined,
+            (state) => {
+                hydration?.register(flowId, flow, state);
+            },
+        );
+        return flow;
+    });
+
+    useEffect(() => {
+        return () => {
+            flow.dispose();
+        };
+    }, [flow]);
+
+    return flow;
+}
+
+/**
+ * An AsyncFlow owned by a component.
+ * @internal
+ */
+interface LocalAsyncFlow<T> extends AsyncFlow<T> {
+    /** Aborts the pending load and drops all subscriptions of the flow. */
+    dispose(): void;
+}
+
+/**
+ * Creates an AsyncFlow for {@link useCreateAsyncFlow}.
+ *
+ * The loader is called lazily, so flows created by discarded renders never load.
+ *
+ * @param loader - Loads the data of the flow
+ * @param initialState - The state hydrated from the server, if any
+ * @param onSuccess - Called with the success state when the loader resolves
+ * @internal
+ */
+function createLocalAsyncFlow<T>(
+    loader: (signal: AbortSignal) => PromiseLike<T>,
+    initialState: AsyncFlowState<T> | undefined,
+    onSuccess: (state: AsyncFlowState<T>) => void,
+): LocalAsyncFlow<T> {
+    const store = createAsyncFlowStore<T>(initialState);
+    let controller: AbortController | null = null;
+
+    const load = () => {
+        if (controller || store.get().status !== "pending") return;
+
+        const current = new AbortController();
+        controller = current;
+
+        new Promise<T>((resolve) => {
+            resolve(loader(current.signal));
+        }).then(
+            (data) => {
+                if (current.signal.aborted) return;
+
+                const state: AsyncFlowState<T> = { status: "success", data };
+                onSuccess(state);
+                store.emit(state);
+            },
+            (error: unknown) => {
+                if (current.signal.aborted) return;
+                store.emit({ status: "error", error });
+            },
+        );
+    };
+
+    return {
+        ...store.flow,
+        subscribe(listener) {
+            load();
+            return store.flow.subscribe(listener);
+        },
+        getSnapshot() {
+            load();
+            return store.get();
+        },
+        asPromise() {
+            load();
+            return store.flow.asPromise();
+        },
+        dispose() {
+            controller?.abort();
+            controller = null;
+            store.listeners.clear();
+        },
+    };
+}
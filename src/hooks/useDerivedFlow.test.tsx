@@ -0,0 +1,219 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { renderToString } from "react-dom/server";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken } from "../skipToken";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { useFlow } from "./useFlow";
+import { useFlowEffect } from "./useFlowEffect";
+import { useDerivedFlow } from "./useDerivedFlow";
+
+const originalWindow = globalThis.window;
+
+describe("useDerivedFlow", () => {
+    afterEach(() => {
+        cleanup();
+        globalThis.window = originalWindow;
+    });
+
+    describe("types behavior", () => {
+        it("should infer compute parameter and return types", () => {
+            const numberFlow = createFlow(0);
+            const stringFlow = createFlow("");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const flow = useDerivedFlow(
+                    (num, str, skipped) => {
+                        expectTypeOf(num).toEqualTypeOf<number>();
+                        expectTypeOf(str).toEqualTypeOf<string>();
+                        expectTypeOf(skipped).toEqualTypeOf<null>();
+                        return str.repeat(num);
+                    },
+                    [numberFlow, stringFlow, skipToken],
+                );
+
+                expectTypeOf(flow).toEqualTypeOf<Flow<string>>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should compute the value from the input flows", () => {
+            const itemsFlow = createFlow(["apple", "banana", "cherry"]);
+            const prefixFlow = createFlow("b");
+
+            const { result } = renderHook(() => {
+                const flow = useDerivedFlow(
+                    (items, prefix) => items.filter((item) => item.startsWith(prefix)),
+                    [itemsFlow, prefixFlow],
+                );
+                return useFlow(flow);
+            });
+
+            expect(result.current).toEqual(["banana"]);
+
+            act(() => {
+                prefixFlow.emit("c");
+            });
+
+            expect(result.current).toEqual(["cherry"]);
+        });
+
+        it("should return a stable flow", () => {
+            const flow = createFlow(1);
+
+            const { result, rerender } = renderHook(
+                ({ multiplier }) => useDerivedFlow((value) => value * multiplier, [flow], [multiplier]),
+                {
+                    initialProps: { multiplier: 2 },
+                },
+            );
+            const derived = result.current;
+
+            rerender({ multiplier: 2 });
+            expect(result.current).toBe(derived);
+
+            rerender({ multiplier: 3 });
+            expect(result.current).toBe(derived);
+        });
+
+        it("should update subscribers when dependencies change", () => {
+            const flow = createFlow(2);
+            const listener = vi.fn();
+
+            const { result, rerender } = renderHook(
+                ({ multiplier }) => useDerivedFlow((value) => value * multiplier, [flow], [multiplier]),
+                { initialProps: { multiplier: 10 } },
+            );
+            const derived = result.current;
+            derived.subscribe(listener);
+
+            expect(derived.getSnapshot()).toBe(20);
+
+            rerender({ multiplier: 100 });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(derived.getSnapshot()).toBe(200);
+        });
+
+        it("should switch to new input flows", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+
+            const { result, rerender } = renderHook(
+                ({ input }) => {
+                    const flow = useDerivedFlow((value) => value * 10, [input]);
+                    return useFlow(flow);
+                },
+                { initialProps: { input: flow1 } },
+            );
+
+            expect(result.current).toBe(10);
+
+            rerender({ input: flow2 });
+
+            expect(result.current).toBe(20);
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(1);
+
+            act(() => {
+                flow2.emit(3);
+            });
+
+            expect(result.current).toBe(30);
+        });
+
+        it("should work with useFlowEffect", async () => {
+            const flow = createFlow(1);
+            const handler = vi.fn();
+
+            renderHook(() => {
+                const derived = useDerivedFlow((value) => value + 1, [flow]);
+                useFlowEffect(derived, handler);
+            });
+
+            expect(handler).toHaveBeenLastCalledWith(2, expect.any(AbortSignal));
+
+            await act(async () => {
+                flow.emit(5);
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenLastCalledWith(6, expect.any(AbortSignal));
+        });
+    });
+
+    describe("laziness", () => {
+        it("should compute the value only when it is read", () => {
+            const flow = createFlow(1);
+            const compute = vi.fn((value: number) => value * 2);
+
+            const { result } = renderHook(() => useDerivedFlow(compute, [flow]));
+            const derived = result.current;
+
+            expect(compute).not.toHaveBeenCalled();
+
+            flow.emit(2);
+            flow.emit(3);
+
+            expect(compute).not.toHaveBeenCalled();
+            expect(derived.getSnapshot()).toBe(6);
+            expect(derived.getSnapshot()).toBe(6);
+            expect(compute).toHaveBeenCalledTimes(1);
+        });
+
+        it("should subscribe to input flows only while it has subscribers", () => {
+            const flow = createFlow(1);
+
+            const { result } = renderHook(() => useDerivedFlow((value) => value, [flow]));
+            const derived = result.current;
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+
+            const sub1 = derived.subscribe(vi.fn());
+            const sub2 = derived.subscribe(vi.fn());
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            sub1.unsubscribe();
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            sub2.unsubscribe();
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should register the derived value for hydration", () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const flow = createFlow("server");
+            const manager = createServerHydrationManager();
+
+            const TestComponent = () => {
+                const derived = useDerivedFlow((value) => `${value} value`, [flow]);
+                return <div>{useFlow(derived)}</div>;
+            };
+
+            const html = renderToString(
+                <FlowHydrationProvider manager={manager}>
+                    <TestComponent />
+                </FlowHydrationProvider>,
+            );
+
+            expect(html).toBe("<div>server value</div>");
+            expect(manager.getScript()).toContain('"server value"');
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
@@ -0,0 +1,166 @@
+import type { Flow, FlowSubscription } from "@tsip/types";
+import { useState, type DependencyList } from "react";
+import type { SkipToken } from "../skipToken";
+import { shallowEqual } from "../equality";
+import { combineFlows, type CombinedFlow, type FlowsValues } from "../flows/combineFlows";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+
+/**
+ * Creates a Flow computed from other flows and values of the component, such as props.
+ *
+ * The returned Flow keeps its identity for the lifetime of the component, so it can be passed to child
+ * components and non-React code. When the input flows or the dependencies change, the Flow switches
+ * to the new inputs and notifies its subscribers. The switch happens at commit time, so renders
+ * that are thrown away never affect the Flow.
+ *
+ * The value is computed lazily, when the Flow is read, and is cached while the values of the input flows
+ * are unchanged. The input flows are only subscribed to while the derived Flow has subscribers itself.
+ *
+ * @typeParam F - The array of input flows
+ * @typeParam T - The type of the computed value
+ *
+ * @param compute - Computes the value from the values of the input flows, in their order.
+ *   Must be pure: it is called when the Flow is read, not on every change of the inputs.
+ * @param flows - The input flows. Any entry can be `skipToken` to skip it, its value is `null`.
+ * @param deps - Values used by `compute` that come from the component, like the dependencies of `useMemo`
+ * @returns A stable Flow of the computed value
+ *
+ * @example
+ * ```tsx
+ * function SearchResults({ query }: { query: string }) {
+ *   const resultsFlow = useDerivedFlow(
+ *     (items) => items.filter((item) => item.title.includes(query)),
+ *     [itemsFlow],
+ *     [query],
+ *   );
+ *
+ *   useFlowEffect(resultsFlow, (results) => analytics.track("results", results.length));
+ *   return <ResultsList resultsFlow={resultsFlow} />;
+ * }
+ * ```
+ */
+export function useDerivedFlow<const F extends readonly (Flow<unknown> | SkipToken)[], T>(
+    compute: (...values: FlowsValues<F>) => T,
+    flows: F,
+    deps: DependencyList = [],
+): Flow<T> {
+    const computeValues = compute as (...values: unknown[]) => unknown;
+    const [source, setSource] = useState(() => createDerivedSource(computeValues, flows, deps, null));
+
+    let current = source;
+    if (!shallowEqual(source.flows, flows) || !shallowEqual(source.deps, deps)) {
+        current = createDerivedSource(computeValues, flows, deps, source);
+        setSource(current);
+    }
+
+    const [flow] = useState(() => createDerivedFlow<T>(current));
+
+    useIsomorphicLayoutEffect(() => {
+        flow.setSource(current);
+    }, [flow, current]);
+
+    return flow;
+}
+
+/**
+ * The inputs of a derived Flow.
+ * @internal
+ */
+interface DerivedSource {
+    /** The input flows, as passed to the hook. */
+    flows: readonly (Flow<unknown> | SkipToken)[];
+    /** The dependencies, as passed to the hook. */
+    deps: DependencyList;
+    /** The combination of the input flows. */
+    combined: CombinedFlow<readonly (Flow<unknown> | SkipToken)[]>;
+    /** Computes the value from the values of the input flows. */
+    compute: (...values: unknown[]) => unknown;
+}
+
+/**
+ * Creates the inputs of a derived Flow, reusing the combination of the previous inputs if the flows are the same.
+ * @internal
+ */
+function createDerivedSource(
+    compute: (...values: unknown[]) => unknown,
+    flows: readonly (Flow<unknown> | SkipToken)[],
+    deps: DependencyList,
+    prev: DerivedSource | null,
+): DerivedSource {
+    const isSameFlows = prev !== null && shallowEqual(prev.flows, flows);
+
+    return {
+        flows: isSameFlows ? prev.flows : flows,
+        deps,
+        combined: isSameFlows ? prev.combined : combineFlows(flows),
+        compute,
+    };
+}
+
+/**
+ * A derived Flow whose inputs can be replaced.
+ * @internal
+ */
+interface DerivedFlow<T> extends Flow<T> {
+    /** Switches the Flow to new inputs and notifies its subscribers. */
+    setSource(source: DerivedSource): void;
+}
+
+/**
+ * Creates a Flow that computes its value from the source lazily.
+ * @internal
+ */
+function createDerivedFlow<T>(initialSource: DerivedSource): DerivedFlow<T> {
+    let source = initialSource;
+    let cached: { source: DerivedSource; values: unknown[]; value: T } | null = null;
+
+    const listeners = new Set<() => void>();
+    let upstream: FlowSubscription | null = null;
+
+    const notify = () => {
+        listeners.forEach((listener) => {
+            listener();
+        });
+    };
+
+    return {
+        subscribe(listener) {
+            const wrapped = () => {
+                listener();
+            };
+            listeners.add(wrapped);
+            upstream ??= source.combined.subscribe(notify);
+
+            return {
+                unsubscribe() {
+                    listeners.delete(wrapped);
+                    if (listeners.size === 0) {
+                        upstream?.unsubscribe();
+                        upstream = null;
+                    }
+                },
+            };
+        },
+        getSnapshot() {
+            const values = source.combined.getSnapshot();
+            if (cached?.source === source && cached.values === values) {
+                return cached.value;
+            }
+
+            const value = source.compute(...values) as T;
+            cached = { source, values, value };
+            return value;
+        },
+        setSource(next) {
+            if (next === source) return;
+
+            const prev = source;
+            source = next;
+            if (upstream && prev.combined !== next.combined) {
+                upstream.unsubscribe();
+                upstream = next.combined.subscribe(notify);
+            }
+            notify();
+        },
+    };
+}
@@ -158,6 +158,126 @@ describe("useFlow", () => {
         });
     });
 
+    describe("schedule behavior", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+            vi.unstubAllGlobals();
+        });
+
+        it("should coalesce updates in a microtask", async () => {
+            const flow = createFlow(0);
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlow(flow, { schedule: "microtask" });
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                flow.emit(2);
+                flow.emit(3);
+                await Promise.resolve();
+            });
+
+            expect(result.current).toBe(3);
+            expect(renderCount).toBe(2);
+        });
+
+        it("should re-render once per animation frame", () => {
+            const callbacks: FrameRequestCallback[] = [];
+            vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => callbacks.push(callback));
+            vi.stubGlobal("cancelAnimationFrame", vi.fn());
+
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlow(flow, { schedule: "animationFrame" }));
+
+            act(() => {
+                flow.emit(1);
+                flow.emit(2);
+            });
+
+            expect(result.current).toBe(0);
+            expect(callbacks).toHaveLength(1);
+
+            act(() => {
+                callbacks.shift()?.(0);
+            });
+
+            expect(result.current).toBe(2);
+        });
+
+        it("should throttle updates", () => {
+            vi.useFakeTimers();
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlow(flow, { schedule: { throttle: 100 } }));
+
+            act(() => {
+                flow.emit(1);
+            });
+
+            expect(result.current).toBe(1);
+
+            act(() => {
+                flow.emit(2);
+                flow.emit(3);
+            });
+
+            expect(result.current).toBe(1);
+
+            act(() => {
+                vi.advanceTimersByTime(100);
+            });
+
+            expect(result.current).toBe(3);
+        });
+
+        it("should debounce updates", () => {
+            vi.useFakeTimers();
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlow(flow, { schedule: { debounce: 100 } }));
+
+            act(() => {
+                flow.emit(1);
+                vi.advanceTimersByTime(50);
+                flow.emit(2);
+                vi.advanceTimersByTime(50);
+            });
+
+            expect(result.current).toBe(0);
+
+            act(() => {
+                vi.advanceTimersByTime(50);
+            });
+
+            expect(result.current).toBe(2);
+        });
+
+        it("should cancel pending updates on unmount", () => {
+            vi.useFakeTimers();
+            const flow = createFlow(0);
+            const { unmount } = renderHook(() => useFlow(flow, { schedule: { debounce: 100 } }));
+
+            act(() => {
+                flow.emit(1);
+                unmount();
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it("should keep subscription for inline schedule objects", () => {
+            const flow = createFlow(0);
+            const subscribe = vi.spyOn(flow, "subscribe");
+            const { rerender } = renderHook(() => useFlow(flow, { schedule: { throttle: 100 } }));
+
+            rerender();
+
+            expect(subscribe).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe("hydration behavior", () => {
         it("should hydrate without errors with different values on server and client", () => {
             const flow = createFlow("client value");
@@ -1,13 +1,17 @@
 import type { Flow } from "@tsip/types";
-import { useSyncExternalStore, useCallback, useId } from "react";
+import { useSyncExternalStore, useCallback, useId, useMemo } from "react";
 import { skipToken, type SkipToken } from "../skipToken";
 import { useHydration } from "../hydration/context";
+import { normalizeSchedule, scheduleNotify, type FlowSchedule } from "../schedule";
+import type { ScopedFlow } from "../scope/scope";
+import { useResolvedFlow } from "./useScopedFlow";
 
 /**
  * Subscribes to a Flow and returns its current value.
  *
  * @typeParam T - The type of value stored in the Flow
- * @param flow - The Flow instance to subscribe to, or `skipToken` to skip subscription
+ * @param flow - The Flow instance to subscribe to, a scoped flow, or `skipToken` to skip subscription
+ * @param options - Configuration options, such as the render schedule
  * @returns The current value from the Flow, or `null` if `skipToken` is passed
  *
  * @example
@@ -28,11 +32,68 @@ import { useHydration } from "../hydration/context";
  *   return <div>Count: {count ?? 'disabled'}</div>;
  * }
  * ```
+ *
+ * @example
+ * // Re-render at most once per animation frame
+ * ```tsx
+ * function Cursor() {
+ *   const { x, y } = useFlow(pointerFlow, { schedule: "animationFrame" });
+ *   return <div style={{ transform: `translate(${x}px, ${y}px)` }} />;
+ * }
+ * ```
+ */
+export function useFlow(flow: SkipToken, options?: UseFlowOptions): null;
+export function useFlow<T>(flow: Flow<T> | ScopedFlow<Flow<T>>, options?: UseFlowOptions): T;
+export function useFlow<T>(flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken, options?: UseFlowOptions): T | null;
+export function useFlow<T>(flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken, options?: UseFlowOptions): T | null {
+    const store = useFlowStore(useResolvedFlow(flow), options?.schedule);
+    return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+}
+
+/**
+ * Configuration options for {@link useFlow}.
+ */
+export interface UseFlowOptions {
+    /**
+     * When to re-render the component after the Flow emits. Defaults to `"sync"`.
+     *
+     * Use a coalescing schedule for flows that emit on every pointer move, scroll or network tick.
+     */
+    schedule?: FlowSchedule;
+}
+
+/**
+ * The set of callbacks required by `useSyncExternalStore` to read a Flow.
+ *
+ * @typeParam T - The type of value returned by the snapshot functions
+ * @internal
  */
-export function useFlow(flow: SkipToken): null;
-export function useFlow<T>(flow: Flow<T>): T;
-export function useFlow<T>(flow: Flow<T> | SkipToken): T | null;
-export function useFlow<T>(flow: Flow<T> | SkipToken): T | null {
+export interface FlowStore<T> {
+    /** Subscribes to the Flow and returns an unsubscribe function. */
+    subscribe: (notify: () => void) => () => void;
+    /** Returns the current value of the Flow. */
+    getSnapshot: () => T;
+    /** Returns the value used during SSR and hydration, registering it with the hydration manager. */
+    getServerSnapshot: () => T;
+}
+
+/**
+ * Creates memoized `useSyncExternalStore` callbacks for a Flow.
+ *
+ * This is the shared subscription logic behind {@link useFlow} and the hooks built on top of it.
+ * The server snapshot participates in SSR hydration through the {@link FlowHydrationManager}
+ * provided by the nearest `FlowHydrationProvider`.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow instance to read, or `skipToken` to skip subscription
+ * @param schedule - When to notify React about the updates of the Flow
+ * @returns Stable store callbacks for the given Flow
+ *
+ * @internal
+ */
+export function useFlowStore<T>(flow: Flow<T> | SkipToken, schedule?: FlowSchedule): FlowStore<T | null> {
+    const [scheduleKind, scheduleDelay] = normalizeSchedule(schedule);
+
     const subscribe = useCallback(
         (notify: () => void) => {
             if (flow === skipToken) {
@@ -41,9 +102,19 @@ export function useFlow<T>(flow: Flow<T> | SkipToken): T | null {
                 };
             }
 
-            return flow.subscribe(notify).unsubscribe;
+            if (scheduleKind === "sync") {
+                return flow.subscribe(notify).unsubscribe;
+            }
+
+            const scheduled = scheduleNotify(notify, scheduleKind, scheduleDelay);
+            const sub = flow.subscribe(scheduled);
+
+            return () => {
+                sub.unsubscribe();
+                scheduled.cancel();
+            };
         },
-        [flow],
+        [flow, scheduleKind, scheduleDelay],
     );
 
     const getSnapshot = useCallback(() => {
@@ -70,5 +141,5 @@ export function useFlow<T>(flow: Flow<T> | SkipToken): T | null {
         return value;
     }, [flow, flowId, hydration]);
 
-    return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+    return useMemo(() => ({ subscribe, getSnapshot, getServerSnapshot }), [subscribe, getSnapshot, getServerSnapshot]);
 }
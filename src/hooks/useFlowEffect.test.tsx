@@ -1,4 +1,5 @@
 import { describe, it, expect, afterEach, vi, expectTypeOf } from "vitest";
+import { useEffect } from "react";
 import { cleanup, act, renderHook } from "@testing-library/react";
 import type { Flow } from "@tsip/types";
 import { createFlow } from "@tsip/flow";
@@ -34,7 +35,7 @@ describe("useFlowEffect", () => {
 
             await Promise.resolve();
 
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(handler).toHaveBeenCalledTimes(1);
         });
 
@@ -47,14 +48,14 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
 
             await act(async () => {
                 flow.emit(108);
                 await Promise.resolve();
             });
 
-            expect(handler).toHaveBeenCalledWith(108);
+            expect(handler).toHaveBeenCalledWith(108, expect.any(AbortSignal));
             expect(handler).toHaveBeenCalledTimes(2);
         });
 
@@ -108,7 +109,7 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(undefined);
+            expect(handler).toHaveBeenCalledWith(undefined, expect.any(AbortSignal));
 
             await act(async () => {
                 flow.emit(undefined);
@@ -126,7 +127,7 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(null);
+            expect(handler).toHaveBeenCalledWith(null, expect.any(AbortSignal));
 
             await act(async () => {
                 flow.emit(null);
@@ -153,7 +154,7 @@ describe("useFlowEffect", () => {
 
             await Promise.resolve();
 
-            expect(handler1).toHaveBeenCalledWith(42);
+            expect(handler1).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(handler2).not.toHaveBeenCalled();
 
             rerender({ handler: handler2 });
@@ -164,7 +165,7 @@ describe("useFlowEffect", () => {
             });
 
             expect(handler1).toHaveBeenCalledTimes(1);
-            expect(handler2).toHaveBeenCalledWith(108);
+            expect(handler2).toHaveBeenCalledWith(108, expect.any(AbortSignal));
             expect(handler2).toHaveBeenCalledTimes(1);
         });
 
@@ -207,14 +208,14 @@ describe("useFlowEffect", () => {
             );
             await Promise.resolve();
 
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(getSubscriptionsCount(flow1)).toBe(1);
             expect(getSubscriptionsCount(flow2)).toBe(0);
 
             rerender({ flow: flow2 });
             await Promise.resolve();
 
-            expect(handler).toHaveBeenCalledWith(108);
+            expect(handler).toHaveBeenCalledWith(108, expect.any(AbortSignal));
             expect(getSubscriptionsCount(flow1)).toBe(0);
             expect(getSubscriptionsCount(flow2)).toBe(1);
         });
@@ -240,7 +241,7 @@ describe("useFlowEffect", () => {
             });
 
             expect(handler).toHaveBeenCalledTimes(1);
-            expect(handler).toHaveBeenCalledWith(3);
+            expect(handler).toHaveBeenCalledWith(3, expect.any(AbortSignal));
         });
     });
 
@@ -334,7 +335,7 @@ describe("useFlowEffect", () => {
             rerender({ flow });
             await Promise.resolve();
 
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(handler).toHaveBeenCalledTimes(1);
         });
 
@@ -352,7 +353,7 @@ describe("useFlowEffect", () => {
             );
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(getSubscriptionsCount(flow)).toBe(1);
 
             rerender({ flow: skipToken });
@@ -374,7 +375,7 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(teardown).not.toHaveBeenCalled();
 
             await act(async () => {
@@ -383,7 +384,7 @@ describe("useFlowEffect", () => {
             });
 
             expect(teardown).toHaveBeenCalledTimes(1);
-            expect(handler).toHaveBeenCalledWith(108);
+            expect(handler).toHaveBeenCalledWith(108, expect.any(AbortSignal));
             expect(handler).toHaveBeenCalledTimes(2);
         });
 
@@ -397,7 +398,7 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(42);
+            expect(handler).toHaveBeenCalledWith(42, expect.any(AbortSignal));
             expect(teardown).not.toHaveBeenCalled();
 
             unmount();
@@ -420,7 +421,7 @@ describe("useFlowEffect", () => {
             });
 
             await Promise.resolve();
-            expect(handler).toHaveBeenCalledWith(1);
+            expect(handler).toHaveBeenCalledWith(1, expect.any(AbortSignal));
 
             await act(async () => {
                 flow.emit(2);
@@ -464,6 +465,299 @@ describe("useFlowEffect", () => {
             expect(teardown).not.toHaveBeenCalled();
         });
     });
+
+    describe("options", () => {
+        it("should skip the initial call with skipInitial", async () => {
+            const flow = createFlow(0);
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowEffect(flow, handler, { skipInitial: true });
+            });
+
+            await Promise.resolve();
+            expect(handler).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(1, expect.any(AbortSignal));
+        });
+
+        it("should use custom equality function", async () => {
+            const flow = createFlow({ id: 1, name: "John" });
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowEffect(flow, handler, { isEqual: (a, b) => a.id === b.id });
+            });
+
+            handler.mockClear();
+
+            await act(async () => {
+                flow.emit({ id: 1, name: "Jane" });
+                await Promise.resolve();
+            });
+
+            expect(handler).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow.emit({ id: 2, name: "Jane" });
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith({ id: 2, name: "Jane" }, expect.any(AbortSignal));
+        });
+
+        it("should call handler synchronously with sync", () => {
+            const flow = createFlow(0);
+            const handler = vi.fn<(value: number) => void>();
+
+            renderHook(() => {
+                useFlowEffect(flow, handler, { sync: true });
+            });
+
+            handler.mockClear();
+
+            act(() => {
+                flow.emit(1);
+                expect(handler).toHaveBeenCalledWith(1, expect.any(AbortSignal));
+                flow.emit(2);
+                flow.emit(3);
+            });
+
+            expect(handler.mock.calls.map(([value]) => value)).toEqual([1, 2, 3]);
+        });
+
+        it("should call handler in a layout effect with layout", () => {
+            const flow = createFlow(42);
+            const calls: string[] = [];
+
+            renderHook(() => {
+                useEffect(() => {
+                    calls.push("effect");
+                });
+                useFlowEffect(
+                    flow,
+                    (value) => {
+                        calls.push(`handler ${String(value)}`);
+                    },
+                    { layout: true },
+                );
+            });
+
+            expect(calls).toEqual(["handler 42", "effect"]);
+        });
+
+        it("should call the latest handler when the flow changes with layout", () => {
+            const a = createFlow(1);
+            const b = createFlow(2);
+            const calls: string[] = [];
+
+            const { rerender } = renderHook(
+                ({ flow, tag }: { flow: typeof a; tag: string }) => {
+                    useFlowEffect(
+                        flow,
+                        (value) => {
+                            calls.push(`${tag}:${String(value)}`);
+                        },
+                        { layout: true },
+                    );
+                },
+                { initialProps: { flow: a, tag: "first" } },
+            );
+
+            rerender({ flow: b, tag: "second" });
+
+            expect(calls).toEqual(["first:1", "second:2"]);
+        });
+
+        it("should resubscribe when timing options change", () => {
+            const flow = createFlow(0);
+            const handler = vi.fn();
+            const teardown = vi.fn();
+            handler.mockReturnValue(teardown);
+
+            const { rerender } = renderHook(
+                (layout: boolean) => {
+                    useFlowEffect(flow, handler, { layout });
+                },
+                { initialProps: false },
+            );
+
+            expect(handler).toHaveBeenCalledTimes(1);
+
+            rerender(true);
+
+            expect(teardown).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledTimes(2);
+            expect(getSubscriptionsCount(flow)).toBe(1);
+        });
+    });
+
+    describe("async handlers", () => {
+        it("should pass a signal that aborts when the next value arrives", async () => {
+            const flow = createFlow(0);
+            const signals: AbortSignal[] = [];
+
+            renderHook(() => {
+                useFlowEffect(flow, (_value, signal) => {
+                    signals.push(signal);
+                });
+            });
+
+            expect(signals[0]?.aborted).toBe(false);
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            expect(signals[0]?.aborted).toBe(true);
+            expect(signals[1]?.aborted).toBe(false);
+        });
+
+        it("should abort the signal on unmount", () => {
+            const flow = createFlow(0);
+            const signals: AbortSignal[] = [];
+
+            const { unmount } = renderHook(() => {
+                useFlowEffect(flow, async (_value, signal) => {
+                    signals.push(signal);
+                    await new Promise(() => {
+                        // never settles
+                    });
+                });
+            });
+
+            unmount();
+
+            expect(signals[0]?.aborted).toBe(true);
+        });
+
+        it("should cancel the running handler by default", async () => {
+            const flow = createFlow(0);
+            const runs: { value: number; signal: AbortSignal; resolve: (value: undefined) => void }[] = [];
+
+            renderHook(() => {
+                useFlowEffect(flow, (value, signal) => {
+                    return new Promise<undefined>((resolve) => {
+                        runs.push({ value, signal, resolve });
+                    });
+                });
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0, 1]);
+            expect(runs[0]?.signal.aborted).toBe(true);
+        });
+
+        it("should not report errors of aborted runs", async () => {
+            const flow = createFlow(0);
+
+            renderHook(() => {
+                useFlowEffect(flow, (value, signal) => {
+                    if (value > 0) return;
+                    return new Promise((_resolve, reject) => {
+                        signal.addEventListener("abort", () => {
+                            reject(new Error("aborted"));
+                        });
+                    });
+                });
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+                await Promise.resolve();
+            });
+        });
+
+        it("should queue values while the handler is running", async () => {
+            const flow = createFlow(0);
+            const runs: { value: number; signal: AbortSignal; resolve: (value: undefined) => void }[] = [];
+
+            renderHook(() => {
+                useFlowEffect(
+                    flow,
+                    (value, signal) => {
+                        return new Promise<undefined>((resolve) => {
+                            runs.push({ value, signal, resolve });
+                        });
+                    },
+                    { concurrency: "queue" },
+                );
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+                flow.emit(2);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0]);
+            expect(runs[0]?.signal.aborted).toBe(false);
+
+            await act(async () => {
+                runs[0]?.resolve(undefined);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0, 1]);
+
+            await act(async () => {
+                runs[1]?.resolve(undefined);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0, 1, 2]);
+        });
+
+        it("should drop values while the handler is running", async () => {
+            const flow = createFlow(0);
+            const runs: { value: number; resolve: (value: undefined) => void }[] = [];
+
+            renderHook(() => {
+                useFlowEffect(
+                    flow,
+                    (value) => {
+                        return new Promise<undefined>((resolve) => {
+                            runs.push({ value, resolve });
+                        });
+                    },
+                    { concurrency: "drop" },
+                );
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0]);
+
+            await act(async () => {
+                runs[0]?.resolve(undefined);
+                await Promise.resolve();
+            });
+
+            await act(async () => {
+                flow.emit(2);
+                await Promise.resolve();
+            });
+
+            expect(runs.map((run) => run.value)).toEqual([0, 2]);
+        });
+    });
 });
 
 function getSubscriptionsCount(flow: Flow<unknown>): number {
@@ -1,6 +1,65 @@
 import type { Flow } from "@tsip/types";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, type RefObject } from "react";
 import { skipToken, type SkipToken } from "../skipToken";
+import type { EqualityFn } from "../equality";
+import type { ScopedFlow } from "../scope/scope";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A handler of {@link useFlowEffect}.
+ *
+ * @typeParam T - The type of value in the Flow
+ *
+ * @param value - The current value of the Flow
+ * @param signal - A signal that aborts when the handler run is superseded or on unmount
+ * @returns An optional cleanup function, or a promise for async work
+ */
+// eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+export type FlowEffectHandler<T> = (value: T, signal: AbortSignal) => (() => void) | void | Promise<unknown>;
+
+/**
+ * How {@link useFlowEffect} handles a new value while the promise of a previous async run is pending.
+ *
+ * - `"cancel"`: abort the previous run and start a new one immediately (the default)
+ * - `"queue"`: wait for the previous run and then handle every new value in order
+ * - `"drop"`: ignore new values until the previous run is finished
+ */
+export type FlowEffectConcurrency = "cancel" | "queue" | "drop";
+
+/**
+ * Configuration options for {@link useFlowEffect}.
+ *
+ * @typeParam T - The type of value in the Flow
+ */
+export interface UseFlowEffectOptions<T> {
+    /**
+     * Skips the call with the current value on subscription, so the handler only runs on changes.
+     */
+    skipInitial?: boolean;
+
+    /**
+     * Function that compares the previous and the next value, the handler is not called for equal values.
+     * Defaults to `Object.is`.
+     */
+    isEqual?: EqualityFn<T>;
+
+    /**
+     * Calls the handler synchronously on every emit instead of batching emits in a microtask.
+     */
+    sync?: boolean;
+
+    /**
+     * Subscribes in a layout effect, so the initial call happens before the browser paints.
+     * Use it for DOM measurements or focus changes driven by a Flow.
+     */
+    layout?: boolean;
+
+    /**
+     * How to handle new values while an async handler is running. Defaults to `"cancel"`.
+     */
+    concurrency?: FlowEffectConcurrency;
+}
 
 /**
  * Subscribes to a Flow and runs a handler function whenever the value changes.
@@ -10,10 +69,19 @@ import { skipToken, type SkipToken } from "../skipToken";
  * return a cleanup function that will be called before the next handler
  * execution or on unmount.
  *
+ * By default, emits made in the same task are batched in a microtask and the
+ * subscription is made in `useEffect`. Both can be changed with `options`.
+ *
+ * The handler also receives an `AbortSignal` and may return a promise for async work.
+ * The signal aborts when the next value is handled or on unmount, and the `concurrency`
+ * option controls what happens to new values while the promise is pending. Rejections
+ * of runs that were not aborted are left unhandled, so they are reported as usual.
+ *
  * @typeParam T - The type of value in the Flow
  *
- * @param flow - The Flow instance to subscribe to, or `skipToken` to skip subscription
- * @param handler - Function called with the current value. Can return a cleanup function.
+ * @param flow - The Flow instance to subscribe to, a scoped flow, or `skipToken` to skip subscription
+ * @param handler - Function called with the current value and an abort signal. Can return a cleanup function or a promise.
+ * @param options - Options to skip the initial call, compare values and control timing and concurrency
  *
  * @example
  * Basic usage:
@@ -55,53 +123,167 @@ import { skipToken, type SkipToken } from "../skipToken";
  *   return null;
  * }
  * ```
+ *
+ * @example
+ * Async work with cancellation:
+ * ```tsx
+ * function DraftAutosave() {
+ *   useFlowEffect(draftFlow, async (draft, signal) => {
+ *     await fetch('/api/drafts', { method: 'PUT', body: JSON.stringify(draft), signal });
+ *   });
+ *   return null;
+ * }
+ * ```
+ *
+ * @example
+ * Measuring the DOM before paint:
+ * ```tsx
+ * function AutoScroll({ listRef }: { listRef: RefObject<HTMLElement | null> }) {
+ *   useFlowEffect(
+ *     messagesFlow,
+ *     () => {
+ *       listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+ *     },
+ *     { layout: true, sync: true }
+ *   );
+ *   return null;
+ * }
+ * ```
  */
 export function useFlowEffect<T>(
-    flow: Flow<T> | SkipToken,
-    // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
-    handler: (value: T) => (() => void) | void,
+    source: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    handler: FlowEffectHandler<T>,
+    options?: UseFlowEffectOptions<T>,
 ): void {
+    const flow = useResolvedFlow(source);
+    const skipInitial = options?.skipInitial ?? false;
+    const sync = options?.sync ?? false;
+    const layout = options?.layout ?? false;
+    const concurrency = options?.concurrency ?? "cancel";
+
     const handlerRef = useRef(handler);
+    const isEqualRef = useRef<EqualityFn<T>>(options?.isEqual ?? Object.is);
 
-    useEffect(() => {
+    // Layout effects run before the layout effect subscription below, so it never sees a stale handler
+    useIsomorphicLayoutEffect(() => {
         handlerRef.current = handler;
-    }, [handler]);
+        isEqualRef.current = options?.isEqual ?? Object.is;
+    });
 
     useEffect(() => {
-        if (flow === skipToken) {
-            return;
+        if (layout) return;
+        return subscribeFlowEffect(flow, handlerRef, isEqualRef, skipInitial, sync, concurrency);
+    }, [flow, skipInitial, sync, layout, concurrency]);
+
+    useIsomorphicLayoutEffect(() => {
+        if (!layout) return;
+        return subscribeFlowEffect(flow, handlerRef, isEqualRef, skipInitial, sync, concurrency);
+    }, [flow, skipInitial, sync, layout, concurrency]);
+}
+
+/**
+ * Subscribes the handler of {@link useFlowEffect} to a Flow.
+ *
+ * @returns A function that unsubscribes, aborts the running handler and runs the last teardown
+ * @internal
+ */
+function subscribeFlowEffect<T>(
+    flow: Flow<T> | SkipToken,
+    handlerRef: RefObject<FlowEffectHandler<T>>,
+    isEqualRef: RefObject<EqualityFn<T>>,
+    skipInitial: boolean,
+    sync: boolean,
+    concurrency: FlowEffectConcurrency,
+): (() => void) | undefined {
+    if (flow === skipToken) {
+        return;
+    }
+
+    let cancelled = false;
+    let prevSnapshot = flow.getSnapshot();
+    let controller: AbortController | null = null;
+    let teardown: (() => void) | undefined;
+    let running: Promise<unknown> | null = null;
+    const queue: T[] = [];
+
+    const finish = () => {
+        controller?.abort();
+        controller = null;
+
+        if (teardown) {
+            teardown();
+            teardown = undefined;
         }
+    };
+
+    const run = (value: T) => {
+        finish();
+
+        const current = new AbortController();
+        controller = current;
+        running = null;
+
+        const result = handlerRef.current(value, current.signal);
+        if (typeof result === "function") {
+            teardown = result;
+        } else if (result) {
+            running = result;
+            void result.then(
+                () => {
+                    settle(result);
+                },
+                (error: unknown) => {
+                    settle(result);
+                    // Errors of superseded runs are expected, usually they are caused by the abort
+                    if (!current.signal.aborted) throw error;
+                },
+            );
+        }
+    };
+
+    const settle = (promise: Promise<unknown>) => {
+        if (cancelled || running !== promise) return;
+        running = null;
+
+        if (queue.length > 0) {
+            run(queue.shift() as T);
+        }
+    };
+
+    const update = () => {
+        if (cancelled) return;
+
+        const snapshot = flow.getSnapshot();
+        if (isEqualRef.current(prevSnapshot, snapshot)) return;
+
+        if (running && concurrency === "drop") return;
+        prevSnapshot = snapshot;
+
+        if (running && concurrency === "queue") {
+            queue.push(snapshot);
+        } else {
+            run(snapshot);
+        }
+    };
+
+    if (!skipInitial) {
+        run(prevSnapshot);
+    }
+
+    const sub = flow.subscribe(() => {
+        if (sync) {
+            update();
+        } else {
+            queueMicrotask(update);
+        }
+    });
+
+    return () => {
+        sub.unsubscribe();
+        cancelled = true;
+        queue.length = 0;
 
-        let cancelled = false;
-        let prevSnapshot = flow.getSnapshot();
-        let teardown = handlerRef.current(prevSnapshot);
-
-        const sub = flow.subscribe(() => {
-            queueMicrotask(() => {
-                if (cancelled) return;
-
-                const snapshot = flow.getSnapshot();
-                if (snapshot !== prevSnapshot) {
-                    prevSnapshot = snapshot;
-
-                    if (teardown) {
-                        teardown();
-                        teardown = undefined;
-                    }
-
-                    teardown = handlerRef.current(snapshot);
-                }
-            });
-        });
-
-        return () => {
-            sub.unsubscribe();
-            cancelled = true;
-
-            // Call teardown on cleanup
-            if (teardown) {
-                teardown();
-            }
-        };
-    }, [flow]);
+        // Abort the running handler and call teardown on cleanup
+        finish();
+    };
 }
@@ -0,0 +1,81 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken } from "../skipToken";
+import { useFlowGetter } from "./useFlowGetter";
+
+describe("useFlowGetter", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createFlow(0);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useFlowGetter(flow)).toEqualTypeOf<() => number>();
+                expectTypeOf(useFlowGetter(skipToken)).toEqualTypeOf<() => null>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the latest value without re-rendering", () => {
+            const flow = createFlow(42);
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlowGetter(flow);
+            });
+
+            expect(result.current()).toBe(42);
+
+            act(() => {
+                flow.emit(108);
+            });
+
+            expect(result.current()).toBe(108);
+            expect(renderCount).toBe(1);
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+
+        it("should return a stable getter for the same flow", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook(() => useFlowGetter(flow));
+            const getter = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(getter);
+        });
+
+        it("should return a new getter when the flow changes", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const { result, rerender } = renderHook((flow) => useFlowGetter(flow), { initialProps: flow1 });
+            const getter = result.current;
+
+            rerender(flow2);
+
+            expect(result.current).not.toBe(getter);
+            expect(result.current()).toBe(2);
+        });
+
+        it("should return null when skipToken is passed", () => {
+            const { result } = renderHook(() => useFlowGetter(skipToken));
+
+            expect(result.current()).toBeNull();
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
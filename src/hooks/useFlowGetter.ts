@@ -0,0 +1,35 @@
+import type { Flow } from "@tsip/types";
+import { useCallback } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * Returns a stable function that reads the latest value of a Flow, without subscribing the component to it.
+ *
+ * The getter calls `flow.getSnapshot()` at the time of the call, so it always returns the latest value
+ * and the component never re-renders when the Flow changes. The getter is stable for the same Flow
+ * instance, so it can be used in event handlers and as a dependency of other hooks.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow instance to read, a scoped flow, or `skipToken` to skip reading
+ * @returns A function that returns the latest value of the Flow, or `null` if `skipToken` is passed
+ *
+ * @example
+ * ```tsx
+ * function SaveButton() {
+ *   const getDraft = useFlowGetter(draftFlow);
+ *   return <button onClick={() => save(getDraft())}>Save</button>;
+ * }
+ * ```
+ */
+export function useFlowGetter(flow: SkipToken): () => null;
+export function useFlowGetter<T>(flow: Flow<T> | ScopedFlow<Flow<T>>): () => T;
+export function useFlowGetter<T>(flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken): () => T | null;
+export function useFlowGetter<T>(source: Flow<T> | ScopedFlow<Flow<T>> | SkipToken): () => T | null {
+    const flow = useResolvedFlow(source);
+    return useCallback(() => {
+        if (flow === skipToken) return null;
+        return flow.getSnapshot();
+    }, [flow]);
+}
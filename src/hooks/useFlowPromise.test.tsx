@@ -0,0 +1,257 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { Suspense, Component, use, type ReactNode } from "react";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import { createAsyncFlow } from "@tsip/flow";
+import { skipToken } from "../skipToken";
+import { readAsyncFlow, useFlowPromise } from "./useFlowPromise";
+
+describe("useFlowPromise", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createAsyncFlow({ status: "success", data: 0 });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(use(readAsyncFlow(flow))).toEqualTypeOf<number>();
+                expectTypeOf(use(useFlowPromise(flow))).toEqualTypeOf<number>();
+                expectTypeOf(useFlowPromise(skipToken)).toEqualTypeOf<null>();
+            }
+        });
+    });
+
+    describe("readAsyncFlow", () => {
+        it("should return the same promise for the same state", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+
+            const promise = readAsyncFlow(flow);
+
+            expect(readAsyncFlow(flow)).toBe(promise);
+
+            flow.emit({ status: "success", data: 108 });
+
+            expect(readAsyncFlow(flow)).not.toBe(promise);
+        });
+
+        it("should not share promises between flows with the same state object", async () => {
+            const pending = { status: "pending" } as const;
+            const flow1 = createAsyncFlow<number>(pending);
+            const flow2 = createAsyncFlow<number>(pending);
+
+            expect(flow1.getSnapshot()).toBe(flow2.getSnapshot());
+
+            const promise1 = readAsyncFlow(flow1);
+            const promise2 = readAsyncFlow(flow2);
+
+            expect(promise2).not.toBe(promise1);
+
+            flow1.emit({ status: "success", data: 42 });
+            flow2.emit({ status: "success", data: 108 });
+
+            await expect(promise1).resolves.toBe(42);
+            await expect(promise2).resolves.toBe(108);
+        });
+
+        it("should resolve with the data of the flow", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+
+            const promise = readAsyncFlow(flow);
+            flow.emit({ status: "success", data: 42 });
+
+            await expect(promise).resolves.toBe(42);
+        });
+
+        it("should reject with the error of the flow", async () => {
+            const error = new Error("failed");
+            const flow = createAsyncFlow<number>({ status: "error", error });
+
+            await expect(readAsyncFlow(flow)).rejects.toBe(error);
+        });
+
+        it("should render success data without suspending", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+
+            const TestComponent = () => <div data-testid="value">{use(readAsyncFlow(flow))}</div>;
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("42");
+        });
+
+        it("should suspend and resume when used conditionally", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+
+            const TestComponent = (props: { show: boolean }) => {
+                if (!props.show) {
+                    return <div data-testid="value">hidden</div>;
+                }
+                return <div data-testid="value">{use(readAsyncFlow(flow))}</div>;
+            };
+
+            const { rerender } = render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent show={false} />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("hidden");
+
+            await act(async () => {
+                rerender(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent show />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("42");
+            });
+        });
+
+        it("should throw the error to the error boundary", () => {
+            const flow = createAsyncFlow<number>({ status: "error", error: new Error("failed") });
+
+            const TestComponent = () => <div>{use(readAsyncFlow(flow))}</div>;
+
+            vi.spyOn(console, "error").mockImplementation(() => {
+                // noop
+            });
+
+            render(
+                <ErrorBoundary fallback={(error) => <div data-testid="error">{String(error)}</div>}>
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>
+                </ErrorBoundary>,
+            );
+
+            expect(screen.getByTestId("error")).toHaveTextContent("Error: failed");
+        });
+    });
+
+    describe("useFlowPromise", () => {
+        it("should return a stable promise until the flow changes", () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+
+            const { result, rerender } = renderHook(() => useFlowPromise(flow));
+            const promise = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(promise);
+
+            act(() => {
+                flow.emit({ status: "success", data: 108 });
+            });
+
+            expect(result.current).not.toBe(promise);
+        });
+
+        it("should return null when skipToken is passed", () => {
+            const { result } = renderHook(() => useFlowPromise(skipToken));
+
+            expect(result.current).toBeNull();
+        });
+
+        it("should re-render with new data", async () => {
+            const flow = createAsyncFlow<number>({ status: "pending" });
+
+            const TestComponent = () => {
+                const promise = useFlowPromise(flow);
+                return <div data-testid="value">{use(promise)}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 42 });
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("42");
+            });
+
+            act(() => {
+                flow.emit({ status: "success", data: 108 });
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("108");
+        });
+
+        it("should keep previous data while the flow is updating", async () => {
+            const flow = createAsyncFlow({ status: "success", data: 42 });
+
+            const TestComponent = () => {
+                const promise = useFlowPromise(flow);
+                return <div data-testid="value">{use(promise)}</div>;
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            act(() => {
+                flow.emit({ status: "pending" });
+            });
+
+            expect(screen.queryByTestId("fallback")).not.toBeInTheDocument();
+            expect(screen.getByTestId("value")).toHaveTextContent("42");
+
+            await act(async () => {
+                flow.emit({ status: "success", data: 108 });
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("108");
+        });
+    });
+});
+
+class ErrorBoundary extends Component<
+    { children: ReactNode; fallback: (error: unknown) => ReactNode },
+    { hasError: boolean; error?: unknown }
+> {
+    constructor(props: { children: ReactNode; fallback: (error: unknown) => ReactNode }) {
+        super(props);
+        this.state = { hasError: false };
+    }
+
+    static getDerivedStateFromError(error: unknown) {
+        return { hasError: true, error };
+    }
+
+    render() {
+        if (this.state.hasError) {
+            return this.props.fallback(this.state.error);
+        }
+        return this.props.children;
+    }
+}
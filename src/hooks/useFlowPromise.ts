@@ -0,0 +1,185 @@
+import type { AsyncFlow, AsyncFlowState, InferAsyncFlowValue } from "@tsip/types";
+import { useEffect, useMemo } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { readAsyncFlowState, setPreviousAsyncFlowState } from "./useAsyncFlow";
+import { useFlow } from "./useFlow";
+import { useIsSsr } from "./useIsSsr";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A promise that exposes its outcome synchronously, as expected by React's `use()`.
+ *
+ * React reads `status`, `value` and `reason` to unwrap settled promises without suspending.
+ *
+ * @typeParam T - The type of data in the promise
+ * @internal
+ */
+type TrackedPromise<T> = Promise<T> &
+    ({ status: "pending" } | { status: "fulfilled"; value: T } | { status: "rejected"; reason: unknown });
+
+/**
+ * Caches promises by AsyncFlow and by its state, so every read of the same state returns the same promise.
+ * State objects can be shared between flows, e.g. a constant pending state, so they are only unique per flow.
+ */
+const promises = new WeakMap<AsyncFlow<unknown>, WeakMap<AsyncFlowState<unknown>, TrackedPromise<unknown>>>();
+
+/**
+ * Returns a promise with the data of the current state of an AsyncFlow, to be unwrapped with React's `use()`.
+ *
+ * The promise is cached per state of the flow, so it is stable across renders until the flow emits a new state.
+ * Success states give an already fulfilled promise and error states give an already rejected one, so `use()`
+ * returns or throws without suspending. Pending states give a promise that settles with the next result of the flow.
+ *
+ * Unlike {@link useAsyncFlow}, this function does not subscribe to the flow, and it can be called anywhere
+ * `use()` can: in conditions, loops and outside of components. Use {@link useFlowPromise} to re-render
+ * the component when the flow changes.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow to read
+ * @returns A cached promise with the data of the flow
+ *
+ * @example
+ * ```tsx
+ * function UserName({ showName }: { showName: boolean }) {
+ *   if (!showName) return null;
+ *   const user = use(readAsyncFlow(userFlow));
+ *   return <span>{user.name}</span>;
+ * }
+ * ```
+ */
+export function readAsyncFlow<T extends AsyncFlow<unknown>>(flow: T): Promise<InferAsyncFlowValue<T>> {
+    const asyncFlow = flow as AsyncFlow<InferAsyncFlowValue<T>>;
+    return getAsyncFlowPromise(asyncFlow, asyncFlow.getSnapshot(), false);
+}
+
+/**
+ * Subscribes to an AsyncFlow and returns a promise with its data, to be unwrapped with React's `use()`.
+ *
+ * The component re-renders with a new promise whenever the flow emits a new state, while the promise
+ * stays the same between renders of the same state. Participates in SSR hydration the same way as
+ * {@link useAsyncFlow}.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow to subscribe to, a scoped AsyncFlow, or `skipToken` to skip subscription
+ * @returns A cached promise with the data of the flow, or `null` if `skipToken` is passed
+ *
+ * @example
+ * ```tsx
+ * function UserProfile({ showDetails }: { showDetails: boolean }) {
+ *   const userPromise = useFlowPromise(userFlow);
+ *   const detailsPromise = useFlowPromise(detailsFlow);
+ *
+ *   const user = use(userPromise);
+ *   const details = showDetails ? use(detailsPromise) : null;
+ *
+ *   return <Profile user={user} details={details} />;
+ * }
+ * ```
+ */
+export function useFlowPromise(flow: SkipToken): null;
+export function useFlowPromise<T extends AsyncFlow<unknown>>(flow: T | ScopedFlow<T>): Promise<InferAsyncFlowValue<T>>;
+export function useFlowPromise<T extends AsyncFlow<unknown>>(
+    flow: T | ScopedFlow<T> | SkipToken,
+): Promise<InferAsyncFlowValue<T>> | null;
+export function useFlowPromise<T extends AsyncFlow<unknown>>(
+    source: T | ScopedFlow<T> | SkipToken,
+): Promise<InferAsyncFlowValue<T>> | null {
+    type Data = InferAsyncFlowValue<T>;
+
+    const flow = useResolvedFlow(source);
+
+    const state = useFlow(flow as AsyncFlow<Data> | SkipToken);
+    const isSsr = useIsSsr();
+
+    useEffect(() => {
+        if (flow !== skipToken && state) {
+            setPreviousAsyncFlowState(flow, state);
+        }
+    }, [flow, state]);
+
+    return useMemo(() => {
+        if (!state || flow === skipToken) {
+            return null;
+        }
+
+        return getAsyncFlowPromise(flow as AsyncFlow<Data>, state, isSsr);
+    }, [flow, state, isSsr]);
+}
+
+/**
+ * Returns the cached promise for the given state of an AsyncFlow, creating it on the first read.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow the state belongs to
+ * @param state - The state of the flow to read
+ * @param isSsr - Whether the component is rendered on the server or being hydrated
+ * @returns A promise that exposes its outcome synchronously
+ * @throws An error if the flow is pending during hydration
+ * @internal
+ */
+function getAsyncFlowPromise<T>(flow: AsyncFlow<T>, state: AsyncFlowState<T>, isSsr: boolean): Promise<T> {
+    let flowPromises = promises.get(flow);
+    if (!flowPromises) {
+        flowPromises = new WeakMap();
+        promises.set(flow, flowPromises);
+    }
+
+    const cached = flowPromises.get(state) as TrackedPromise<T> | undefined;
+    if (cached) {
+        return cached;
+    }
+
+    const read = readAsyncFlowState(flow, state, isSsr, true);
+
+    let promise: TrackedPromise<T>;
+    if (read.status === "success") {
+        promise = Object.assign(Promise.resolve(read.data), { status: "fulfilled" as const, value: read.data });
+    } else if (read.status === "error") {
+        promise = Object.assign(Promise.reject(read.error as Error), {
+            status: "rejected" as const,
+            reason: read.error,
+        });
+        // The rejection is delivered through `use()`, so it must not be reported as unhandled
+        promise.catch(noop);
+    } else {
+        promise = trackPromise(read.promise);
+    }
+
+    flowPromises.set(state, promise);
+    return promise;
+}
+
+/**
+ * Tracks the outcome of a pending promise in its `status`, `value` and `reason` fields.
+ *
+ * @typeParam T - The type of data in the promise
+ * @param promise - The pending promise
+ * @returns The same promise with the tracked outcome
+ * @internal
+ */
+function trackPromise<T>(promise: Promise<T>): TrackedPromise<T> {
+    const tracked: Promise<T> & { status?: string; value?: T; reason?: unknown } = promise;
+    tracked.status = "pending";
+
+    tracked.then(
+        (value) => {
+            tracked.status = "fulfilled";
+            tracked.value = value;
+        },
+        (reason: unknown) => {
+            tracked.status = "rejected";
+            tracked.reason = reason;
+        },
+    );
+
+    return tracked as TrackedPromise<T>;
+}
+
+/**
+ * No-op rejection handler.
+ * @internal
+ */
+function noop() {
+    // noop
+}
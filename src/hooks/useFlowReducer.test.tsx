@@ -0,0 +1,300 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { useEffect } from "react";
+import { cleanup, act, render, renderHook, screen } from "@testing-library/react";
+import { createFlow } from "@tsip/flow";
+import {
+    useFlowReducer,
+    type FlowDispatch,
+    type FlowReducerMiddleware,
+    type FlowReducerMiddlewareApi,
+} from "./useFlowReducer";
+
+type Action = { type: "increment"; by?: number } | { type: "reset" };
+
+function counterReducer(state: number, action: Action): number {
+    switch (action.type) {
+        case "increment":
+            return state + (action.by ?? 1);
+        case "reset":
+            return 0;
+    }
+}
+
+describe("useFlowReducer", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createFlow(0);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [state, dispatch] = useFlowReducer(flow, counterReducer);
+                expectTypeOf(state).toEqualTypeOf<number>();
+                expectTypeOf(dispatch).parameter(0).toEqualTypeOf<Action>();
+            }
+        });
+
+        it("should accept generic middleware shared by flows of different types", () => {
+            const counterFlow = createFlow(0);
+            const nameFlow = createFlow("");
+
+            function logger<S, A>(api: FlowReducerMiddlewareApi<S, A>) {
+                return (next: FlowDispatch<A>) => (action: A) => {
+                    next(action);
+                    api.getState();
+                };
+            }
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [count] = useFlowReducer(counterFlow, counterReducer, { middleware: [logger] });
+                const [name] = useFlowReducer(nameFlow, (_state: string, action: { name: string }) => action.name, {
+                    middleware: [logger],
+                });
+
+                expectTypeOf(count).toEqualTypeOf<number>();
+                expectTypeOf(name).toEqualTypeOf<string>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the current state", () => {
+            const flow = createFlow(42);
+
+            const { result } = renderHook(() => useFlowReducer(flow, counterReducer));
+
+            expect(result.current[0]).toBe(42);
+        });
+
+        it("should store reduced state in the flow", () => {
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlowReducer(flow, counterReducer));
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+                result.current[1]({ type: "increment", by: 10 });
+            });
+
+            expect(flow.getSnapshot()).toBe(11);
+            expect(result.current[0]).toBe(11);
+
+            act(() => {
+                result.current[1]({ type: "reset" });
+            });
+
+            expect(result.current[0]).toBe(0);
+        });
+
+        it("should reduce from the latest flow value", () => {
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlowReducer(flow, counterReducer));
+
+            flow.emit(100);
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+            });
+
+            expect(result.current[0]).toBe(101);
+        });
+
+        it("should return a stable dispatch", () => {
+            const flow = createFlow(0);
+            const { result, rerender } = renderHook(() => useFlowReducer(flow, counterReducer));
+            const dispatch = result.current[1];
+
+            rerender();
+
+            expect(result.current[1]).toBe(dispatch);
+        });
+
+        it("should use the latest reducer", () => {
+            const flow = createFlow(0);
+            const { result, rerender } = renderHook(
+                ({ factor }) => useFlowReducer(flow, (state, action: Action) => counterReducer(state, action) * factor),
+                { initialProps: { factor: 1 } },
+            );
+
+            rerender({ factor: 2 });
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+            });
+
+            expect(result.current[0]).toBe(2);
+        });
+
+        it("should use the latest reducer in effects of children", () => {
+            const flow = createFlow(0);
+
+            const Child = ({ dispatch, factor }: { dispatch: FlowDispatch<Action>; factor: number }) => {
+                useEffect(() => {
+                    dispatch({ type: "increment", by: factor });
+                }, [dispatch, factor]);
+                return null;
+            };
+
+            const TestComponent = ({ factor }: { factor: number }) => {
+                const [count, dispatch] = useFlowReducer(flow, (state, action: Action) =>
+                    action.type === "increment" ? state + (action.by ?? 1) * factor : 0,
+                );
+                return (
+                    <>
+                        <div data-testid="count">{count}</div>
+                        <Child dispatch={dispatch} factor={factor} />
+                    </>
+                );
+            };
+
+            const { rerender } = render(<TestComponent factor={1} />);
+
+            expect(screen.getByTestId("count")).toHaveTextContent("1");
+
+            rerender(<TestComponent factor={10} />);
+
+            expect(screen.getByTestId("count")).toHaveTextContent("101");
+        });
+    });
+
+    describe("middleware", () => {
+        it("should build the middleware chain once per middleware array", () => {
+            const flow = createFlow(0);
+            const setup = vi.fn();
+
+            const counter: FlowReducerMiddleware<number, Action> = () => {
+                setup();
+                return (next) => next;
+            };
+            const middleware = [counter];
+
+            const { result, rerender } = renderHook(
+                ({ middleware }) => useFlowReducer(flow, counterReducer, { middleware }),
+                { initialProps: { middleware } },
+            );
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+                result.current[1]({ type: "increment" });
+            });
+
+            rerender({ middleware });
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+            });
+
+            expect(setup).toHaveBeenCalledTimes(1);
+            expect(result.current[0]).toBe(3);
+
+            rerender({ middleware: [counter] });
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+            });
+
+            expect(setup).toHaveBeenCalledTimes(2);
+            expect(result.current[0]).toBe(4);
+        });
+
+        it("should call middleware in order around the reducer", () => {
+            const flow = createFlow(0);
+            const calls: string[] = [];
+
+            const first: FlowReducerMiddleware<number, Action> = (api) => (next) => (action) => {
+                calls.push(`first:before:${String(api.getState())}`);
+                next(action);
+                calls.push(`first:after:${String(api.getState())}`);
+            };
+            const second: FlowReducerMiddleware<number, Action> = (api) => (next) => (action) => {
+                calls.push(`second:before:${String(api.getState())}`);
+                next(action);
+                calls.push(`second:after:${String(api.getState())}`);
+            };
+
+            const { result } = renderHook(() => useFlowReducer(flow, counterReducer, { middleware: [first, second] }));
+
+            act(() => {
+                result.current[1]({ type: "increment" });
+            });
+
+            expect(calls).toEqual(["first:before:0", "second:before:0", "second:after:1", "first:after:1"]);
+        });
+
+        it("should allow middleware to drop and transform actions", () => {
+            const flow = createFlow(0);
+
+            const validate: FlowReducerMiddleware<number, Action> = () => (next) => (action) => {
+                if (action.type === "increment" && (action.by ?? 1) < 0) {
+                    return;
+                }
+                next(action);
+            };
+            const double: FlowReducerMiddleware<number, Action> = () => (next) => (action) => {
+                next(action.type === "increment" ? { type: "increment", by: (action.by ?? 1) * 2 } : action);
+            };
+
+            const { result } = renderHook(() =>
+                useFlowReducer(flow, counterReducer, { middleware: [validate, double] }),
+            );
+
+            act(() => {
+                result.current[1]({ type: "increment", by: -5 });
+            });
+
+            expect(result.current[0]).toBe(0);
+
+            act(() => {
+                result.current[1]({ type: "increment", by: 5 });
+            });
+
+            expect(result.current[0]).toBe(10);
+        });
+
+        it("should dispatch through the whole chain from middleware", () => {
+            const flow = createFlow(0);
+            const log = vi.fn();
+
+            const logger: FlowReducerMiddleware<number, Action> = () => (next) => (action) => {
+                log(action);
+                next(action);
+            };
+            const resetOnLimit: FlowReducerMiddleware<number, Action> = (api) => (next) => (action) => {
+                next(action);
+                if (api.getState() > 10) {
+                    api.dispatch({ type: "reset" });
+                }
+            };
+
+            const { result } = renderHook(() =>
+                useFlowReducer(flow, counterReducer, { middleware: [logger, resetOnLimit] }),
+            );
+
+            act(() => {
+                result.current[1]({ type: "increment", by: 20 });
+            });
+
+            expect(result.current[0]).toBe(0);
+            expect(log).toHaveBeenCalledTimes(2);
+            expect(log).toHaveBeenLastCalledWith({ type: "reset" });
+        });
+
+        it("should throw a descriptive error when dispatching while constructing the chain", () => {
+            const flow = createFlow(0);
+
+            const eager: FlowReducerMiddleware<number, Action> = (api) => {
+                api.dispatch({ type: "reset" });
+                return (next) => next;
+            };
+
+            const { result } = renderHook(() => useFlowReducer(flow, counterReducer, { middleware: [eager] }));
+
+            expect(() => {
+                result.current[1]({ type: "increment" });
+            }).toThrow("Dispatching while constructing the middleware chain is not allowed");
+        });
+    });
+});
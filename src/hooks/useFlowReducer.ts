@@ -0,0 +1,209 @@
+import type { MutableFlow } from "@tsip/types";
+import { useCallback, useRef, type RefObject } from "react";
+import type { ScopedFlow } from "../scope/scope";
+import { useFlow } from "./useFlow";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A reducer that computes the next value of a Flow from the current value and an action.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ */
+export type FlowReducer<S, A> = (state: S, action: A) => S;
+
+/**
+ * A function that dispatches an action to a Flow reducer.
+ *
+ * @typeParam A - The type of actions
+ */
+export type FlowDispatch<A> = (action: A) => void;
+
+/**
+ * The API available to {@link FlowReducerMiddleware} functions.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ */
+export interface FlowReducerMiddlewareApi<S, A> {
+    /** Returns the latest value of the Flow. */
+    getState(): S;
+    /** Dispatches an action through the whole middleware chain. */
+    dispatch: FlowDispatch<A>;
+}
+
+/**
+ * A middleware that wraps the dispatch of {@link useFlowReducer}.
+ *
+ * A middleware receives the next dispatch function in the chain and returns a new dispatch function.
+ * It can inspect the state before and after the action, transform or drop actions, or dispatch other actions.
+ * Middleware shared by flows of different types is declared as a generic function, so it fits any of them.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ *
+ * @example
+ * ```ts
+ * const validate: FlowReducerMiddleware<number, CounterAction> = () => (next) => (action) => {
+ *   if (action.type === "increment" && action.by < 0) return;
+ *   next(action);
+ * };
+ *
+ * function logger<S, A>(api: FlowReducerMiddlewareApi<S, A>) {
+ *   return (next: FlowDispatch<A>) => (action: A) => {
+ *     console.log("before", api.getState(), action);
+ *     next(action);
+ *     console.log("after", api.getState());
+ *   };
+ * }
+ * ```
+ */
+export type FlowReducerMiddleware<S, A> = (
+    api: FlowReducerMiddlewareApi<S, A>,
+) => (next: FlowDispatch<A>) => FlowDispatch<A>;
+
+/**
+ * Configuration options for {@link useFlowReducer}.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ */
+export interface UseFlowReducerOptions<S, A> {
+    /**
+     * Middleware applied to every dispatched action, from the first to the last.
+     * The chain is built again when the array changes, so keep it stable, e.g. by declaring it outside of the component.
+     */
+    middleware?: readonly FlowReducerMiddleware<S, A>[];
+}
+
+/**
+ * The result type returned by {@link useFlowReducer}.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ */
+export type UseFlowReducerResult<S, A> = [S, FlowDispatch<A>];
+
+/**
+ * Subscribes to a mutable Flow and returns its current value together with a dispatch function,
+ * similar to `useReducer`.
+ *
+ * The state is stored in the Flow itself, so code outside of React can observe it. Every action
+ * goes through the middleware chain and then through the reducer, which is called with the latest
+ * value of the Flow. The dispatch function is stable for the same Flow instance and always uses the
+ * latest reducer and middleware.
+ *
+ * @typeParam S - The type of value stored in the Flow
+ * @typeParam A - The type of actions
+ *
+ * @param flow - The mutable Flow instance that stores the state, or a scoped flow
+ * @param reducer - Function that computes the next state from the current state and an action
+ * @param options - Configuration options, such as the middleware chain
+ * @returns A tuple with the current state and the dispatch function
+ *
+ * @example
+ * ```tsx
+ * type Action = { type: "increment" } | { type: "reset" };
+ *
+ * function counterReducer(state: number, action: Action) {
+ *   switch (action.type) {
+ *     case "increment":
+ *       return state + 1;
+ *     case "reset":
+ *       return 0;
+ *   }
+ * }
+ *
+ * const middleware = [logger];
+ *
+ * function Counter() {
+ *   const [count, dispatch] = useFlowReducer(counterFlow, counterReducer, { middleware });
+ *   return <button onClick={() => dispatch({ type: "increment" })}>Count: {count}</button>;
+ * }
+ * ```
+ */
+export function useFlowReducer<S, A>(
+    source: MutableFlow<S> | ScopedFlow<MutableFlow<S>>,
+    reducer: FlowReducer<S, A>,
+    options?: UseFlowReducerOptions<S, A>,
+): UseFlowReducerResult<S, A> {
+    const flow = useResolvedFlow(source);
+    const state = useFlow(flow);
+
+    const reducerRef = useRef(reducer);
+    const middlewareRef = useRef(options?.middleware);
+    const chainRef = useRef<DispatchChain<S, A> | null>(null);
+
+    // Layout effects run before all passive effects, so actions dispatched from effects of children use the latest reducer
+    useIsomorphicLayoutEffect(() => {
+        reducerRef.current = reducer;
+        middlewareRef.current = options?.middleware;
+    }, [reducer, options?.middleware]);
+
+    const dispatch = useCallback(
+        (action: A) => {
+            const middleware = middlewareRef.current;
+            let chain = chainRef.current;
+
+            if (chain?.flow !== flow || chain.middleware !== middleware) {
+                chain = { flow, middleware, dispatch: createDispatchChain(flow, reducerRef, middleware ?? []) };
+                chainRef.current = chain;
+            }
+
+            chain.dispatch(action);
+        },
+        [flow],
+    );
+
+    return [state, dispatch];
+}
+
+/**
+ * The composed middleware chain of a Flow, cached until the Flow or the middleware array changes.
+ * @internal
+ */
+interface DispatchChain<S, A> {
+    /** The Flow the chain emits to. */
+    flow: MutableFlow<S>;
+    /** The middleware array the chain is built from. */
+    middleware: readonly FlowReducerMiddleware<S, A>[] | undefined;
+    /** Passes an action through the whole chain. */
+    dispatch: FlowDispatch<A>;
+}
+
+/**
+ * Composes the middleware chain of a Flow with the reducer.
+ *
+ * @param flow - The Flow that stores the state
+ * @param reducerRef - The latest reducer, read on every action
+ * @param middleware - The middleware chain to apply
+ * @returns The dispatch function that passes an action through the whole chain
+ * @internal
+ */
+function createDispatchChain<S, A>(
+    flow: MutableFlow<S>,
+    reducerRef: RefObject<FlowReducer<S, A>>,
+    middleware: readonly FlowReducerMiddleware<S, A>[],
+): FlowDispatch<A> {
+    const reduce: FlowDispatch<A> = (action) => {
+        flow.emit(reducerRef.current(flow.getSnapshot(), action));
+    };
+
+    let chain: FlowDispatch<A> = () => {
+        throw new Error(
+            "Dispatching while constructing the middleware chain is not allowed. " +
+                "Other middleware would not be applied to this dispatch.",
+        );
+    };
+
+    const api: FlowReducerMiddlewareApi<S, A> = {
+        getState: () => flow.getSnapshot(),
+        dispatch: (action) => {
+            chain(action);
+        },
+    };
+
+    chain = middleware.reduceRight<FlowDispatch<A>>((next, middleware) => middleware(api)(next), reduce);
+    return chain;
+}
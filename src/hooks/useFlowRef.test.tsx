@@ -0,0 +1,141 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { renderToString } from "react-dom/server";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { useFlowRef } from "./useFlowRef";
+
+describe("useFlowRef", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createFlow(0);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const ref = useFlowRef(flow);
+                const skipped = useFlowRef(skipToken);
+
+                const handleClick = () => {
+                    expectTypeOf(ref.current).toEqualTypeOf<number>();
+                    expectTypeOf(skipped.current).toEqualTypeOf<null>();
+                };
+
+                return <button onClick={handleClick} />;
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should hold the current value", () => {
+            const flow = createFlow(42);
+
+            const { result } = renderHook(() => useFlowRef(flow));
+
+            expect(result.current.current).toBe(42);
+        });
+
+        it("should update the ref without re-rendering", () => {
+            const flow = createFlow(42);
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlowRef(flow);
+            });
+
+            act(() => {
+                flow.emit(108);
+                flow.emit(109);
+            });
+
+            expect(result.current.current).toBe(109);
+            expect(renderCount).toBe(1);
+        });
+
+        it("should return a stable ref", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook(() => useFlowRef(flow));
+            const ref = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(ref);
+        });
+
+        it("should track the new flow when the flow changes", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const { result, rerender } = renderHook((flow) => useFlowRef(flow), { initialProps: flow1 });
+
+            rerender(flow2);
+
+            expect(result.current.current).toBe(2);
+
+            act(() => {
+                flow1.emit(10);
+                flow2.emit(20);
+            });
+
+            expect(result.current.current).toBe(20);
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+        });
+
+        it("should unsubscribe on unmount", () => {
+            const flow = createFlow(42);
+            const { unmount } = renderHook(() => useFlowRef(flow));
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            unmount();
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should hold null when skipToken is passed", () => {
+            const { result } = renderHook(() => useFlowRef(skipToken));
+
+            expect(result.current.current).toBeNull();
+        });
+
+        it("should reset to null when switching to skipToken", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook((flow) => useFlowRef(flow), {
+                initialProps: flow as Flow<number> | SkipToken,
+            });
+
+            rerender(skipToken);
+
+            expect(result.current.current).toBeNull();
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+
+    describe("server rendering", () => {
+        it("should hold the current value during SSR", () => {
+            const flow = createFlow(42);
+
+            const TestComponent = () => {
+                const ref = useFlowRef(flow);
+                // eslint-disable-next-line react-hooks/refs
+                return <div>{ref.current}</div>;
+            };
+
+            expect(renderToString(<TestComponent />)).toBe("<div>42</div>");
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
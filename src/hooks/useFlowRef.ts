@@ -0,0 +1,60 @@
+import type { Flow } from "@tsip/types";
+import { useEffect, useRef, type RefObject } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * Returns a ref that always holds the latest value of a Flow, without re-rendering the component.
+ *
+ * The ref is kept up to date by a subscription that writes new values to `ref.current` and never
+ * triggers renders, so it is suitable for high-frequency flows that are only read inside event
+ * handlers and callbacks. Do not read the ref during render: use {@link useFlow} for values that
+ * affect the rendered output.
+ *
+ * The ref is initialized with the current value of the Flow, so it can also be read during SSR.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow instance to track, a scoped flow, or `skipToken` to skip subscription
+ * @returns A ref with the latest value of the Flow, or `null` if `skipToken` is passed
+ *
+ * @example
+ * ```tsx
+ * function Canvas() {
+ *   const cursorRef = useFlowRef(cursorFlow);
+ *
+ *   const handleClick = () => {
+ *     addPoint(cursorRef.current);
+ *   };
+ *
+ *   return <canvas onClick={handleClick} />;
+ * }
+ * ```
+ */
+export function useFlowRef(flow: SkipToken): Readonly<RefObject<null>>;
+export function useFlowRef<T>(flow: Flow<T> | ScopedFlow<Flow<T>>): Readonly<RefObject<T>>;
+export function useFlowRef<T>(flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken): Readonly<RefObject<T | null>>;
+export function useFlowRef<T>(source: Flow<T> | ScopedFlow<Flow<T>> | SkipToken): Readonly<RefObject<T | null>> {
+    const flow = useResolvedFlow(source);
+    const ref = useRef(flow === skipToken ? null : flow.getSnapshot());
+
+    useEffect(() => {
+        if (flow === skipToken) {
+            ref.current = null;
+            return;
+        }
+
+        // The flow may have changed since the ref was initialized
+        ref.current = flow.getSnapshot();
+
+        const sub = flow.subscribe(() => {
+            ref.current = flow.getSnapshot();
+        });
+
+        return () => {
+            sub.unsubscribe();
+        };
+    }, [flow]);
+
+    return ref;
+}
@@ -0,0 +1,288 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { renderToString } from "react-dom/server";
+import { cleanup, act, renderHook, render, screen } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { shallowEqual } from "../equality";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
+import { useFlowSelector } from "./useFlowSelector";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+interface Store {
+    users: Record<string, { name: string; age: number }>;
+    version: number;
+}
+
+describe("useFlowSelector", () => {
+    afterEach(() => {
+        delete window._FS_;
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createFlow({ count: 0 });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const result = useFlowSelector(flow, (value) => value.count);
+                expectTypeOf(result).toEqualTypeOf<number>();
+
+                const skipped = useFlowSelector(skipToken, (value: { count: number }) => value.count);
+                expectTypeOf(skipped).toEqualTypeOf<null>();
+            }
+        });
+
+        it("should accept union with skipToken", () => {
+            const flow: Flow<{ count: number }> | SkipToken = createFlow({ count: 0 });
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const result = useFlowSelector(flow, (value) => value.count);
+                expectTypeOf(result).toEqualTypeOf<number | null>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the selected value", () => {
+            const flow = createFlow<Store>({ users: { a: { name: "Alice", age: 30 } }, version: 1 });
+
+            const { result } = renderHook(() => useFlowSelector(flow, (store) => store.users.a?.name));
+
+            expect(result.current).toBe("Alice");
+        });
+
+        it("should update when the selected value changes", () => {
+            const flow = createFlow<Store>({ users: { a: { name: "Alice", age: 30 } }, version: 1 });
+            const { result } = renderHook(() => useFlowSelector(flow, (store) => store.users.a?.name));
+
+            act(() => {
+                flow.emit({ users: { a: { name: "Alicia", age: 30 } }, version: 2 });
+            });
+
+            expect(result.current).toBe("Alicia");
+        });
+
+        it("should not re-render when the selected value is unchanged", () => {
+            const flow = createFlow<Store>({ users: { a: { name: "Alice", age: 30 } }, version: 1 });
+            let renderCount = 0;
+
+            renderHook(() => {
+                renderCount++;
+                return useFlowSelector(flow, (store) => store.users.a?.name);
+            });
+            expect(renderCount).toBe(1);
+
+            act(() => {
+                flow.emit({ users: { a: { name: "Alice", age: 31 } }, version: 2 });
+            });
+            expect(renderCount).toBe(1);
+
+            act(() => {
+                flow.emit({ users: { a: { name: "Bob", age: 31 } }, version: 3 });
+            });
+            expect(renderCount).toBe(2);
+        });
+
+        it("should unsubscribe on unmount", () => {
+            const flow = createFlow(42);
+            const { unmount } = renderHook(() => useFlowSelector(flow, (value) => value * 2));
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            act(() => {
+                unmount();
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+
+        it("should handle flow reference changes", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow(108);
+            const { result, rerender } = renderHook(
+                (flow: Flow<number>) => useFlowSelector(flow, (value) => value * 2),
+                { initialProps: flow1 },
+            );
+
+            expect(result.current).toBe(84);
+
+            rerender(flow2);
+
+            expect(result.current).toBe(216);
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(1);
+        });
+
+        it("should apply a new selector on re-render", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook(
+                (factor: number) => useFlowSelector(flow, (value) => value * factor),
+                {
+                    initialProps: 2,
+                },
+            );
+
+            expect(result.current).toBe(84);
+
+            rerender(3);
+
+            expect(result.current).toBe(126);
+        });
+    });
+
+    describe("equality behavior", () => {
+        it("should keep the selected reference stable with custom equality", () => {
+            const flow = createFlow<Store>({ users: { a: { name: "Alice", age: 30 } }, version: 1 });
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlowSelector(flow, (store) => ({ name: store.users.a?.name }), shallowEqual);
+            });
+            const initial = result.current;
+
+            act(() => {
+                flow.emit({ users: { a: { name: "Alice", age: 31 } }, version: 2 });
+            });
+
+            expect(renderCount).toBe(1);
+            expect(result.current).toBe(initial);
+
+            act(() => {
+                flow.emit({ users: { a: { name: "Bob", age: 31 } }, version: 3 });
+            });
+
+            expect(renderCount).toBe(2);
+            expect(result.current).toEqual({ name: "Bob" });
+        });
+
+        it("should keep the selected reference stable across re-renders with inline selectors", () => {
+            const flow = createFlow<Store>({ users: { a: { name: "Alice", age: 30 } }, version: 1 });
+
+            const { result, rerender } = renderHook(() =>
+                useFlowSelector(flow, (store) => ({ name: store.users.a?.name }), shallowEqual),
+            );
+            const initial = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(initial);
+        });
+
+        it("should use the custom equality function", () => {
+            const flow = createFlow(1);
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlowSelector(
+                    flow,
+                    (value) => value,
+                    (a, b) => Math.floor(a / 10) === Math.floor(b / 10),
+                );
+            });
+
+            act(() => {
+                flow.emit(5);
+            });
+
+            expect(renderCount).toBe(1);
+            expect(result.current).toBe(1);
+
+            act(() => {
+                flow.emit(15);
+            });
+
+            expect(renderCount).toBe(2);
+            expect(result.current).toBe(15);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return null when skipToken is passed", () => {
+            const { result } = renderHook(() => useFlowSelector(skipToken, (value: number) => value * 2));
+
+            expect(result.current).toBe(null);
+        });
+
+        it("should switch between flow and skipToken", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook(
+                (flow: Flow<number> | SkipToken) => useFlowSelector(flow, (value) => value * 2),
+                { initialProps: flow as Flow<number> | SkipToken },
+            );
+
+            expect(result.current).toBe(84);
+
+            rerender(skipToken);
+
+            expect(result.current).toBe(null);
+            expect(getSubscriptionsCount(flow)).toBe(0);
+
+            rerender(flow);
+
+            expect(result.current).toBe(84);
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should register the flow value on the server", () => {
+            const flow = createFlow({ name: "server value", age: 30 });
+            const manager = createServerHydrationManager();
+
+            const TestComponent = () => {
+                const name = useFlowSelector(flow, (value) => value.name);
+                return <div>{name}</div>;
+            };
+
+            const html = renderToString(
+                <FlowHydrationProvider manager={manager}>
+                    <TestComponent />
+                </FlowHydrationProvider>,
+            );
+
+            expect(html).toBe("<div>server value</div>");
+            expect(manager.getScript()).toContain('_FS_.m(new Map([["_R_0_",{"name":"server value","age":30}]]));');
+        });
+
+        it("should select from the server value during hydration", () => {
+            const flow = createFlow({ name: "client value", age: 30 });
+            const manager = createClientHydrationManager();
+            window._FS_ = new Map([["_R_0_", { name: "server value", age: 30 }]]);
+
+            const container = document.createElement("div");
+            container.innerHTML = '<div data-testid="value">server value</div>';
+            document.body.appendChild(container);
+
+            const TestComponent = () => {
+                const name = useFlowSelector(flow, (value) => value.name);
+                return <div data-testid="value">{name}</div>;
+            };
+
+            render(<TestComponent />, {
+                container,
+                wrapper({ children }) {
+                    return <FlowHydrationProvider manager={manager}>{children}</FlowHydrationProvider>;
+                },
+                hydrate: true,
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("client value");
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
@@ -0,0 +1,179 @@
+import type { Flow } from "@tsip/types";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { EqualityFn } from "../equality";
+import type { ScopedFlow } from "../scope/scope";
+import { useFlowStore, type FlowStore } from "./useFlow";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * Subscribes to a Flow and returns a value derived from it by the selector.
+ *
+ * The component re-renders only when the selected value changes according to `isEqual`
+ * (which defaults to `Object.is`). The selected value keeps its reference across renders
+ * while it is considered equal, so it can safely be passed to memoized children or used
+ * as a dependency of other hooks.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @typeParam S - The type of the selected value
+ *
+ * @param flow - The Flow instance to subscribe to, a scoped flow, or `skipToken` to skip subscription
+ * @param selector - Function that derives the selected value from the Flow's value
+ * @param isEqual - Function that compares the previous and the next selected values
+ * @returns The selected value, or `null` if `skipToken` is passed
+ *
+ * @example
+ * ```tsx
+ * const storeFlow = createFlow({ users: {}, posts: {} });
+ *
+ * function UserName({ id }: { id: string }) {
+ *   const name = useFlowSelector(storeFlow, (store) => store.users[id]?.name);
+ *   return <span>{name}</span>;
+ * }
+ * ```
+ *
+ * @example
+ * Selecting a new object on every call with shallow equality:
+ * ```tsx
+ * function UserCard({ id }: { id: string }) {
+ *   const { name, email } = useFlowSelector(
+ *     storeFlow,
+ *     (store) => ({ name: store.users[id].name, email: store.users[id].email }),
+ *     shallowEqual,
+ *   );
+ *   return <div>{name} ({email})</div>;
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
+export function useFlowSelector<T, S>(flow: SkipToken, selector: (value: T) => S, isEqual?: EqualityFn<S>): null;
+export function useFlowSelector<T, S>(
+    flow: Flow<T> | ScopedFlow<Flow<T>>,
+    selector: (value: T) => S,
+    isEqual?: EqualityFn<S>,
+): S;
+export function useFlowSelector<T, S>(
+    flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    selector: (value: T) => S,
+    isEqual?: EqualityFn<S>,
+): S | null;
+export function useFlowSelector<T, S>(
+    flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    selector: (value: T) => S,
+    isEqual: EqualityFn<S> = Object.is,
+): S | null {
+    const store = useFlowStore(useResolvedFlow(flow));
+    return useFlowStoreSelector(store, flow === skipToken ? null : selector, isEqual);
+}
+
+/**
+ * Subscribes to a {@link FlowStore} and returns a value derived from it by the selector.
+ *
+ * This is the selection logic behind {@link useFlowSelector}, for hooks that create the store themselves.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @typeParam S - The type of the selected value
+ *
+ * @param store - The store of the Flow
+ * @param selector - Function that derives the selected value from the Flow's value, or `null` when skipped
+ * @param isEqual - Function that compares the previous and the next selected values
+ * @returns The selected value, or `null` if the selector is `null`
+ *
+ * @internal
+ */
+export function useFlowStoreSelector<T, S>(
+    store: FlowStore<T | null>,
+    selector: ((value: T) => S) | null,
+    isEqual: EqualityFn<S>,
+): S | null {
+    /**
+     * The last selection committed to the screen.
+     * Used to keep the selection reference stable across selector changes.
+     */
+    const [committed] = useState(createCommittedSelection<S>);
+
+    const [getSelection, getServerSelection] = useMemo(() => {
+        const select = createSelectionMemo(selector, isEqual, committed);
+        return [() => select(store.getSnapshot()), () => select(store.getServerSnapshot())];
+    }, [store, selector, isEqual, committed]);
+
+    const selection = useSyncExternalStore(store.subscribe, getSelection, getServerSelection);
+
+    useEffect(() => {
+        committed.set(selection);
+    }, [committed, selection]);
+
+    return selection;
+}
+
+/**
+ * Holds the selection committed by the last render of a {@link useFlowSelector} hook.
+ * @internal
+ */
+export interface CommittedSelection<S> {
+    get(): { value: S | null } | null;
+    set(value: S | null): void;
+}
+
+/**
+ * Creates a holder for the selection committed by the last render.
+ *
+ * @returns An object with accessors for the committed selection
+ * @internal
+ */
+export function createCommittedSelection<S>(): CommittedSelection<S> {
+    let committed: { value: S | null } | null = null;
+
+    return {
+        get: () => committed,
+        set: (value: S | null) => {
+            committed = { value };
+        },
+    };
+}
+
+/**
+ * Creates a memoized selector that reuses the previous selection while the snapshot is unchanged,
+ * and returns the previous selection reference when the next one is equal to it.
+ *
+ * @param selector - Function that derives the selection from the snapshot, or `null` when skipped
+ * @param isEqual - Function that compares selections
+ * @param committed - Holder of the selection committed by the previous render
+ * @returns A function that maps snapshots to memoized selections
+ * @internal
+ */
+export function createSelectionMemo<T, S>(
+    selector: ((value: T) => S) | null,
+    isEqual: EqualityFn<S>,
+    committed: CommittedSelection<S>,
+): (snapshot: T | null) => S | null {
+    let memo: { snapshot: T | null; selection: S | null } | null = null;
+
+    return (snapshot) => {
+        if (memo && Object.is(memo.snapshot, snapshot)) {
+            return memo.selection;
+        }
+
+        const nextSelection = selector ? selector(snapshot as T) : null;
+        const prevSelection = memo ? { value: memo.selection } : committed.get();
+
+        const selection =
+            prevSelection && isSelectionEqual(prevSelection.value, nextSelection, isEqual)
+                ? prevSelection.value
+                : nextSelection;
+
+        memo = { snapshot, selection };
+        return selection;
+    };
+}
+
+/**
+ * Compares two selections, treating `null` (skipped) selections separately from selected values.
+ * @internal
+ */
+function isSelectionEqual<S>(prev: S | null, next: S | null, isEqual: EqualityFn<S>): boolean {
+    if (prev === null || next === null) {
+        return prev === next;
+    }
+    return isEqual(prev, next);
+}
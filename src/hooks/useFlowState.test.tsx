@@ -0,0 +1,140 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { useFlowState } from "./useFlowState";
+
+describe("useFlowState", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const flow = createFlow(0);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const [value, setValue] = useFlowState(flow);
+                expectTypeOf(value).toEqualTypeOf<number>();
+                expectTypeOf(setValue).toEqualTypeOf<(action: number | ((prevValue: number) => number)) => void>();
+            }
+        });
+
+        it("should reject read-only flows", () => {
+            const flow: Flow<number> = createFlow(0).asFlow();
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                // @ts-expect-error read-only flows cannot be updated
+                useFlowState(flow);
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the current value", () => {
+            const flow = createFlow(42);
+
+            const { result } = renderHook(() => useFlowState(flow));
+
+            expect(result.current[0]).toBe(42);
+        });
+
+        it("should emit values to the flow", () => {
+            const flow = createFlow(42);
+            const { result } = renderHook(() => useFlowState(flow));
+
+            act(() => {
+                result.current[1](108);
+            });
+
+            expect(flow.getSnapshot()).toBe(108);
+            expect(result.current[0]).toBe(108);
+        });
+
+        it("should update when the flow is changed elsewhere", () => {
+            const flow = createFlow(42);
+            const { result } = renderHook(() => useFlowState(flow));
+
+            act(() => {
+                flow.emit(108);
+            });
+
+            expect(result.current[0]).toBe(108);
+        });
+
+        it("should return a stable setter", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook(() => useFlowState(flow));
+            const setValue = result.current[1];
+
+            act(() => {
+                setValue(108);
+            });
+            rerender();
+
+            expect(result.current[1]).toBe(setValue);
+        });
+
+        it("should return a new setter when the flow changes", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const { result, rerender } = renderHook((flow) => useFlowState(flow), { initialProps: flow1 });
+            const setValue = result.current[1];
+
+            rerender(flow2);
+
+            expect(result.current[0]).toBe(2);
+            expect(result.current[1]).not.toBe(setValue);
+
+            act(() => {
+                result.current[1](20);
+            });
+
+            expect(flow1.getSnapshot()).toBe(1);
+            expect(flow2.getSnapshot()).toBe(20);
+        });
+    });
+
+    describe("updater functions", () => {
+        it("should pass the latest flow value to updaters", () => {
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlowState(flow));
+
+            act(() => {
+                const setValue = result.current[1];
+                setValue((count) => count + 1);
+                setValue((count) => count + 1);
+                setValue((count) => count + 1);
+            });
+
+            expect(result.current[0]).toBe(3);
+        });
+
+        it("should use the latest value instead of the rendered one", () => {
+            const flow = createFlow(0);
+            const { result } = renderHook(() => useFlowState(flow));
+            const setValue = result.current[1];
+
+            flow.emit(10);
+
+            act(() => {
+                setValue((count) => count + 1);
+            });
+
+            expect(result.current[0]).toBe(11);
+        });
+
+        it("should allow storing values that are not functions", () => {
+            const flow = createFlow<{ count: number }>({ count: 0 });
+            const { result } = renderHook(() => useFlowState(flow));
+
+            act(() => {
+                result.current[1]({ count: 1 });
+            });
+
+            expect(result.current[0]).toEqual({ count: 1 });
+        });
+    });
+});
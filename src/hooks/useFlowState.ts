@@ -0,0 +1,65 @@
+import type { MutableFlow } from "@tsip/types";
+import { useCallback } from "react";
+import type { ScopedFlow } from "../scope/scope";
+import { useFlow } from "./useFlow";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A new value for the flow, or a function that computes it from the latest value of the flow.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ */
+export type SetFlowStateAction<T> = T | ((prevValue: T) => T);
+
+/**
+ * The result type returned by {@link useFlowState}.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ */
+export type UseFlowStateResult<T> = [T, (action: SetFlowStateAction<T>) => void];
+
+/**
+ * Subscribes to a mutable Flow and returns its current value together with a setter,
+ * similar to `useState`.
+ *
+ * The setter is stable for the same Flow instance. When it receives a function, the function
+ * is called with the latest value of the Flow at the time of the call, not the value from
+ * the last render, so several updates in a row compose correctly.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ *
+ * @param flow - The mutable Flow instance to read and update, or a scoped flow
+ * @returns A tuple with the current value and the setter
+ *
+ * @example
+ * ```tsx
+ * const counterFlow = createFlow(0);
+ *
+ * function Counter() {
+ *   const [count, setCount] = useFlowState(counterFlow);
+ *   return <button onClick={() => setCount((count) => count + 1)}>Count: {count}</button>;
+ * }
+ * ```
+ */
+export function useFlowState<T>(source: MutableFlow<T> | ScopedFlow<MutableFlow<T>>): UseFlowStateResult<T> {
+    const flow = useResolvedFlow(source);
+    const value = useFlow(flow);
+
+    const setValue = useCallback(
+        (action: SetFlowStateAction<T>) => {
+            const nextValue = isUpdater(action) ? action(flow.getSnapshot()) : action;
+            flow.emit(nextValue);
+        },
+        [flow],
+    );
+
+    return [value, setValue];
+}
+
+/**
+ * Checks whether the action is an updater function.
+ * @internal
+ */
+function isUpdater<T>(action: SetFlowStateAction<T>): action is (prevValue: T) => T {
+    return typeof action === "function";
+}
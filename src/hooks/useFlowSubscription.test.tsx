@@ -0,0 +1,149 @@
+import { describe, it, expect, afterEach, vi, expectTypeOf } from "vitest";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { useFlowSubscription } from "./useFlowSubscription";
+
+describe("useFlowSubscription", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer listener parameter types", () => {
+            const flow = createFlow(0);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                useFlowSubscription(flow, (value) => {
+                    expectTypeOf(value).toEqualTypeOf<number>();
+                });
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should not call listener on mount", () => {
+            const flow = createFlow(42);
+            const listener = vi.fn();
+
+            renderHook(() => {
+                useFlowSubscription(flow, listener);
+            });
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should call listener for every emission in order", () => {
+            const flow = createFlow(0);
+            const values: number[] = [];
+
+            renderHook(() => {
+                useFlowSubscription(flow, (value) => {
+                    values.push(value);
+                });
+            });
+
+            act(() => {
+                flow.emit(1);
+                flow.emit(2);
+                flow.emit(3);
+            });
+
+            expect(values).toEqual([1, 2, 3]);
+        });
+
+        it("should call listener for emissions with equal payloads", () => {
+            const flow = createFlow({ type: "click" });
+            const listener = vi.fn();
+
+            renderHook(() => {
+                useFlowSubscription(flow, listener);
+            });
+
+            act(() => {
+                flow.emit({ type: "click" });
+                flow.emit({ type: "click" });
+            });
+
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(listener).toHaveBeenCalledWith({ type: "click" });
+        });
+
+        it("should use latest listener without resubscribing", () => {
+            const flow = createFlow(0);
+            const listener1 = vi.fn();
+            const listener2 = vi.fn();
+            const subscribe = vi.spyOn(flow, "subscribe");
+
+            const { rerender } = renderHook(
+                (listener: (value: number) => void) => {
+                    useFlowSubscription(flow, listener);
+                },
+                { initialProps: listener1 },
+            );
+
+            rerender(listener2);
+
+            act(() => {
+                flow.emit(1);
+            });
+
+            expect(listener1).not.toHaveBeenCalled();
+            expect(listener2).toHaveBeenCalledWith(1);
+            expect(subscribe).toHaveBeenCalledTimes(1);
+        });
+
+        it("should unsubscribe on unmount", () => {
+            const flow = createFlow(0);
+            const listener = vi.fn();
+
+            const { unmount } = renderHook(() => {
+                useFlowSubscription(flow, listener);
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            unmount();
+            flow.emit(1);
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should handle switching between skipToken and real flow", () => {
+            const flow = createFlow(0);
+            const listener = vi.fn();
+
+            const { rerender } = renderHook(
+                (flow: Flow<number> | SkipToken) => {
+                    useFlowSubscription(flow, listener);
+                },
+                { initialProps: skipToken as Flow<number> | SkipToken },
+            );
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+
+            rerender(flow);
+            act(() => {
+                flow.emit(1);
+            });
+
+            expect(listener).toHaveBeenCalledWith(1);
+
+            rerender(skipToken);
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
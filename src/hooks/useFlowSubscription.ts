@@ -0,0 +1,56 @@
+import type { Flow } from "@tsip/types";
+import { useEffect, useRef } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * Subscribes to a Flow used as an event stream and calls a listener for every emission.
+ *
+ * Unlike {@link useFlowEffect}, the listener is not called with the current value on mount,
+ * emits are neither batched nor compared, and the listener is called synchronously, in order,
+ * with the snapshot taken at notification time. Use it for notifications, key presses or socket
+ * messages, where every emit matters even if several have the same payload.
+ *
+ * The latest listener is always used without resubscribing.
+ *
+ * @typeParam T - The type of value in the Flow
+ *
+ * @param flow - The Flow instance to subscribe to, a scoped flow, or `skipToken` to skip subscription
+ * @param listener - Function called with the value of every emission
+ *
+ * @example
+ * ```tsx
+ * function Toasts() {
+ *   useFlowSubscription(notificationsFlow, (notification) => {
+ *     toast(notification.message);
+ *   });
+ *   return null;
+ * }
+ * ```
+ */
+export function useFlowSubscription<T>(
+    source: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    listener: (value: T) => void,
+): void {
+    const flow = useResolvedFlow(source);
+    const listenerRef = useRef(listener);
+
+    useEffect(() => {
+        listenerRef.current = listener;
+    }, [listener]);
+
+    useEffect(() => {
+        if (flow === skipToken) {
+            return;
+        }
+
+        const sub = flow.subscribe(() => {
+            listenerRef.current(flow.getSnapshot());
+        });
+
+        return () => {
+            sub.unsubscribe();
+        };
+    }, [flow]);
+}
@@ -0,0 +1,104 @@
+import type { Flow } from "@tsip/types";
+import { useEffect, useRef, useState, useTransition } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { EqualityFn } from "../equality";
+import type { FlowSchedule } from "../schedule";
+import { useFlowStore } from "./useFlow";
+import { useIsSsr } from "./useIsSsr";
+
+/**
+ * The value of a Flow as rendered in transition mode.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @internal
+ */
+export interface FlowTransitionState<T> {
+    /** The Flow the value belongs to. May differ from the requested Flow while a transition is pending. */
+    flow: Flow<T> | SkipToken;
+    /** The committed value of the Flow, or `null` if `skipToken` is passed. */
+    value: T | null;
+    /** Indicates if a transition to a newer value or to the requested Flow is in progress. */
+    isPending: boolean;
+}
+
+/**
+ * Subscribes to a Flow and applies its updates as React transitions.
+ *
+ * Unlike {@link useFlow}, which always renders the latest value, this hook keeps rendering the
+ * committed value until React finishes rendering the new one. When the Flow instance changes,
+ * the previous Flow and its value are returned until the transition to the new Flow completes,
+ * so a component that suspends on the new Flow keeps its current UI on screen.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow instance to subscribe to, or `skipToken` to skip subscription
+ * @param isEqual - Function that compares values, updates with equal values are ignored
+ * @param schedule - When to start a transition after the Flow emits
+ * @returns The committed Flow, its value and the pending flag
+ *
+ * @internal
+ */
+export function useFlowTransition<T>(
+    flow: Flow<T> | SkipToken,
+    isEqual: EqualityFn<T> = Object.is,
+    schedule?: FlowSchedule,
+): FlowTransitionState<T> {
+    const store = useFlowStore(flow, schedule);
+    const isSsr = useIsSsr();
+    const [isPending, startTransition] = useTransition();
+
+    const [committed, setCommitted] = useState<Omit<FlowTransitionState<T>, "isPending">>(() => ({
+        flow,
+        value: isSsr ? store.getServerSnapshot() : store.getSnapshot(),
+    }));
+
+    const committedRef = useRef(committed);
+
+    useEffect(() => {
+        committedRef.current = committed;
+    }, [committed]);
+
+    useEffect(() => {
+        const update = () => {
+            const value = store.getSnapshot();
+            const prev = committedRef.current;
+            if (prev.flow === flow && isCommittedValueEqual(prev.value, value, isEqual)) {
+                // Starting a transition re-renders the component even if the state is not changed
+                return;
+            }
+
+            startTransition(() => {
+                setCommitted((prev) =>
+                    prev.flow === flow && isCommittedValueEqual(prev.value, value, isEqual) ? prev : { flow, value },
+                );
+            });
+        };
+
+        const unsubscribe = store.subscribe(update);
+        // The flow may have changed between render and subscription, or the value may come from hydration
+        update();
+
+        return unsubscribe;
+    }, [flow, store, isEqual]);
+
+    if (flow === skipToken) {
+        return { flow, value: null, isPending: false };
+    }
+
+    if (committed.flow === skipToken) {
+        // Nothing has been committed yet, so there is no UI to keep on screen
+        return { flow, value: isSsr ? store.getServerSnapshot() : store.getSnapshot(), isPending: false };
+    }
+
+    return { flow: committed.flow, value: committed.value, isPending: isPending || committed.flow !== flow };
+}
+
+/**
+ * Compares committed values, treating `null` (skipped) values separately from Flow values.
+ * @internal
+ */
+function isCommittedValueEqual<T>(prev: T | null, next: T | null, isEqual: EqualityFn<T>): boolean {
+    if (prev === null || next === null) {
+        return prev === next;
+    }
+    return isEqual(prev, next);
+}
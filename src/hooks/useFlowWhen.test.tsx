@@ -0,0 +1,434 @@
+import { Writable } from "stream";
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { Suspense, type ReactElement, type ReactNode } from "react";
+import { renderToPipeableStream } from "react-dom/server";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
+import type { FlowHydrationManager } from "../hydration/types";
+import { useFlowWhen } from "./useFlowWhen";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+const originalWindow = globalThis.window;
+
+type Auth = "unknown" | "anonymous" | { name: string };
+
+function isKnown(auth: Auth): auth is Exclude<Auth, "unknown"> {
+    return auth !== "unknown";
+}
+
+describe("useFlowWhen", () => {
+    afterEach(() => {
+        delete window._FS_;
+        cleanup();
+        vi.useRealTimers();
+    });
+
+    describe("types behavior", () => {
+        it("should narrow the value with a type guard", () => {
+            const flow = createFlow<Auth>("unknown");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const auth = useFlowWhen(flow, isKnown);
+                expectTypeOf(auth).toEqualTypeOf<"anonymous" | { name: string }>();
+
+                const inferred = useFlowWhen(flow, (auth) => auth !== "unknown");
+                expectTypeOf(inferred).toEqualTypeOf<"anonymous" | { name: string }>();
+
+                const value = useFlowWhen(flow, (auth): boolean => auth !== "anonymous");
+                expectTypeOf(value).toEqualTypeOf<Auth>();
+            }
+        });
+
+        it("should accept union with skipToken", () => {
+            const flow: Flow<Auth> | SkipToken = createFlow<Auth>("unknown");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const auth = useFlowWhen(flow, isKnown);
+                expectTypeOf(auth).toEqualTypeOf<"anonymous" | { name: string } | null>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the value when the predicate is satisfied", () => {
+            const flow = createFlow<Auth>("anonymous");
+
+            const { result } = renderHook(() => useFlowWhen(flow, isKnown));
+
+            expect(result.current).toBe("anonymous");
+        });
+
+        it("should suspend until the predicate is satisfied", async () => {
+            const flow = createFlow<Auth>("unknown");
+
+            const TestComponent = () => {
+                const auth = useFlowWhen(flow, isKnown);
+                return <div data-testid="value">{auth === "anonymous" ? "guest" : auth.name}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                flow.emit({ name: "John" });
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("John");
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+        });
+
+        it("should resolve waiting components with different predicates independently", async () => {
+            const flow = createFlow(0);
+
+            const TestComponent = ({ min }: { min: number }) => {
+                const value = useFlowWhen(flow, (value) => value >= min);
+                return <div data-testid={`value-${String(min)}`}>{value}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <>
+                        <Suspense fallback={<div data-testid="fallback-1">Loading...</div>}>
+                            <TestComponent min={1} />
+                        </Suspense>
+                        <Suspense fallback={<div data-testid="fallback-2">Loading...</div>}>
+                            <TestComponent min={2} />
+                        </Suspense>
+                    </>,
+                );
+                await Promise.resolve();
+            });
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value-1")).toHaveTextContent("1");
+            });
+            expect(screen.getByTestId("fallback-2")).toBeInTheDocument();
+
+            await act(async () => {
+                flow.emit(2);
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value-2")).toHaveTextContent("2");
+            });
+        });
+
+        it("should suspend again when the value stops satisfying the predicate", async () => {
+            const flow = createFlow<Auth>("anonymous");
+
+            const TestComponent = () => {
+                const auth = useFlowWhen(flow, isKnown);
+                return <div data-testid="value">{auth === "anonymous" ? "guest" : auth.name}</div>;
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("guest");
+
+            await act(async () => {
+                flow.emit("unknown");
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                flow.emit({ name: "Jane" });
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("Jane");
+            });
+        });
+    });
+
+    describe("subscription behavior", () => {
+        it("should keep waiting through emissions that do not satisfy the predicate", async () => {
+            const flow = createFlow(0);
+            let renders = 0;
+
+            const TestComponent = () => {
+                renders++;
+                const value = useFlowWhen(flow, (value) => value >= 3);
+                return <div data-testid="value">{value}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            const suspendedRenders = renders;
+
+            for (const value of [1, 2]) {
+                await act(async () => {
+                    flow.emit(value);
+                    await Promise.resolve();
+                });
+
+                expect(screen.getByTestId("fallback")).toBeInTheDocument();
+                expect(getSubscriptionsCount(flow)).toBe(1);
+            }
+
+            expect(renders).toBe(suspendedRenders);
+
+            await act(async () => {
+                flow.emit(3);
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("3");
+            });
+        });
+
+        it("should unsubscribe after the waiting components are unmounted", async () => {
+            vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+            const flow = createFlow(0);
+
+            const TestComponent = () => {
+                const value = useFlowWhen(flow, (value) => value >= 3);
+                return <div data-testid="value">{value}</div>;
+            };
+
+            const App = ({ label }: { label: string }) => (
+                <Suspense fallback={<div data-testid="fallback">{label}</div>}>
+                    <TestComponent />
+                </Suspense>
+            );
+
+            const { rerender, unmount } = await act(async () => {
+                const result = render(<App label="Loading" />);
+                await Promise.resolve();
+                return result;
+            });
+
+            // Retried renders share the pending wait
+            for (const label of ["Loading.", "Loading.."]) {
+                await act(async () => {
+                    rerender(<App label={label} />);
+                    await Promise.resolve();
+                });
+            }
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            unmount();
+
+            await act(async () => {
+                flow.emit(1);
+                await Promise.resolve();
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            await act(async () => {
+                vi.advanceTimersByTime(1000);
+                await Promise.resolve();
+            });
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+
+        it("should keep waiting after the unmounted components are dropped", async () => {
+            vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+            const flow = createFlow(0);
+
+            const TestComponent = () => {
+                const value = useFlowWhen(flow, (value) => value >= 3);
+                return <div data-testid="value">{value}</div>;
+            };
+
+            await act(async () => {
+                render(
+                    <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                        <TestComponent />
+                    </Suspense>,
+                );
+                await Promise.resolve();
+            });
+
+            await act(async () => {
+                vi.advanceTimersByTime(1000);
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            await act(async () => {
+                flow.emit(3);
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("3");
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return null when skipToken is passed", () => {
+            const { result } = renderHook(() => useFlowWhen(skipToken, isKnown));
+
+            expect(result.current).toBeNull();
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should wait for the predicate on the server and hydrate the value", async () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const flow = createFlow<Auth>("unknown");
+            const serverManager = createServerHydrationManager();
+
+            const App = ({ children, manager }: { children: ReactNode; manager: FlowHydrationManager }) => {
+                return (
+                    <FlowHydrationProvider manager={manager}>
+                        <main>
+                            <Suspense fallback={<div data-testid="fallback">Loading...</div>}>{children}</Suspense>
+                        </main>
+                    </FlowHydrationProvider>
+                );
+            };
+
+            const TestComponent = () => {
+                const auth = useFlowWhen(flow, isKnown);
+                return <div data-testid="value">{auth === "anonymous" ? "guest" : auth.name}</div>;
+            };
+
+            const renderPromise = renderToString(
+                <App manager={serverManager}>
+                    <TestComponent />
+                </App>,
+                serverManager,
+            );
+
+            // should wait for the first render to finish
+            await Promise.resolve();
+
+            flow.emit({ name: "John" });
+
+            const { html } = await renderPromise;
+
+            expect(html).toContain('<div data-testid="value">John</div>');
+
+            globalThis.window = originalWindow;
+
+            const hydrationContainer = document.createElement("div");
+            hydrationContainer.innerHTML = html;
+            document.body.appendChild(hydrationContainer);
+            runScripts(hydrationContainer);
+
+            flow.emit("unknown");
+            const clientManager = createClientHydrationManager();
+
+            render(
+                <App manager={clientManager}>
+                    <TestComponent />
+                </App>,
+                {
+                    container: hydrationContainer,
+                    hydrate: true,
+                },
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("John");
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
+
+async function renderToString(element: ReactElement, manager: FlowHydrationManager) {
+    const html = await new Promise<string>((resolve, reject) => {
+        let content = "";
+
+        const htmlStream = new Writable({
+            write(chunk: Buffer, encoding, callback) {
+                content += getHydrationScripts(manager);
+                content += chunk.toString();
+                callback();
+            },
+        });
+
+        let didError = false;
+        const stream = renderToPipeableStream(element, {
+            onShellReady() {
+                stream.pipe(htmlStream);
+            },
+            onShellError(error) {
+                // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+                reject(error);
+            },
+            onError(err) {
+                didError = true;
+                console.error(err);
+            },
+        });
+
+        htmlStream.on("finish", () => {
+            expect(didError).toBe(false);
+            resolve(content);
+        });
+
+        htmlStream.on("error", (err) => {
+            reject(err);
+        });
+    });
+
+    return { html };
+}
+
+function getHydrationScripts(manager: FlowHydrationManager) {
+    const script = manager.getScript();
+    if (!script) return "";
+    return `<script>${script}</script>`;
+}
+
+function runScripts(node: HTMLElement) {
+    node.querySelectorAll("script").forEach((script) => {
+        (0, eval)(script.textContent);
+    });
+}
@@ -0,0 +1,162 @@
+import type { Flow } from "@tsip/types";
+import { skipToken, type SkipToken } from "../skipToken";
+import type { ScopedFlow } from "../scope/scope";
+import { useFlow } from "./useFlow";
+import { useResolvedFlow } from "./useScopedFlow";
+
+/**
+ * A pending wait for a Flow value that satisfies one of the predicates of the suspended components.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @internal
+ */
+interface FlowWaiter<T> {
+    /** Resolves when the Flow emits a value that satisfies any of the predicates. */
+    promise: Promise<undefined>;
+    /** The predicates of the components waiting for the Flow. */
+    predicates: Set<(value: T) => boolean>;
+}
+
+/**
+ * Caches waiters by Flow, so every suspended render of the same Flow throws the same promise.
+ */
+const waiters = new WeakMap<Flow<unknown>, FlowWaiter<unknown>>();
+
+/**
+ * How long a waiter keeps its subscription before it wakes up the suspended components to drop the unmounted ones.
+ */
+const WAITER_SWEEP_INTERVAL = 1000;
+
+/**
+ * Subscribes to a Flow and suspends the component until its value satisfies a predicate.
+ *
+ * While the predicate returns `false`, the hook throws a promise cached per Flow, which resolves on
+ * the first emission that satisfies the predicate, so the nearest `Suspense` boundary shows its fallback.
+ * Once the predicate returns `true`, the hook returns the value, narrowed if the predicate is a type guard.
+ * If the value stops satisfying the predicate later, the component suspends again.
+ *
+ * Works during SSR streaming like the {@link useAsyncFlow} accessor: the server waits for a matching
+ * value and transfers it to the client, where hydration uses the same value.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @typeParam S - The type narrowed by the predicate
+ *
+ * @param flow - The Flow instance to subscribe to, a scoped flow, or `skipToken` to skip subscription
+ * @param predicate - Function that checks whether the value is usable
+ * @returns The value of the Flow that satisfies the predicate, or `null` if `skipToken` is passed
+ * @throws A promise while the value does not satisfy the predicate
+ *
+ * @example
+ * ```tsx
+ * type Auth = "unknown" | "anonymous" | User;
+ *
+ * function Header() {
+ *   const auth = useFlowWhen(authFlow, (auth): auth is "anonymous" | User => auth !== "unknown");
+ *   return auth === "anonymous" ? <LoginButton /> : <UserMenu user={auth} />;
+ * }
+ * ```
+ */
+export function useFlowWhen<T, S extends T>(
+    flow: Flow<T> | ScopedFlow<Flow<T>>,
+    predicate: (value: T) => value is S,
+): S;
+export function useFlowWhen<T>(flow: Flow<T> | ScopedFlow<Flow<T>>, predicate: (value: T) => boolean): T;
+export function useFlowWhen<T, S extends T>(
+    flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    predicate: (value: T) => value is S,
+): S | null;
+export function useFlowWhen<T>(
+    flow: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    predicate: (value: T) => boolean,
+): T | null;
+export function useFlowWhen<T>(
+    source: Flow<T> | ScopedFlow<Flow<T>> | SkipToken,
+    predicate: (value: T) => boolean,
+): T | null {
+    const flow = useResolvedFlow(source);
+    const value = useFlow(flow);
+
+    if (flow === skipToken) {
+        return null;
+    }
+
+    if (predicate(value as T)) {
+        return value;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/only-throw-error
+    throw waitForFlow(flow, predicate);
+}
+
+/**
+ * Returns a promise that resolves when the Flow emits a value that satisfies the predicate.
+ *
+ * The promise is shared by all components waiting for the same Flow and resolves as soon as
+ * any of their predicates is satisfied. Components whose predicates are still not satisfied
+ * suspend again with a new promise after re-rendering.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow to wait for
+ * @param predicate - Function that checks whether the value is usable
+ * @returns The cached promise
+ * @internal
+ */
+function waitForFlow<T>(flow: Flow<T>, predicate: (value: T) => boolean): Promise<undefined> {
+    // The Flow may have emitted a matching value after the render read it
+    if (predicate(flow.getSnapshot())) {
+        return Promise.resolve(undefined);
+    }
+
+    const waiter = (waiters.get(flow) as FlowWaiter<T> | undefined) ?? createFlowWaiter(flow);
+    waiter.predicates.add(predicate);
+
+    return waiter.promise;
+}
+
+/**
+ * Creates the waiter of a Flow and subscribes it to the Flow.
+ *
+ * Suspended components that are unmounted never report it, so their predicates would keep the subscription
+ * open forever. Instead, the waiter resolves after {@link WAITER_SWEEP_INTERVAL} even without a matching value:
+ * the components that are still suspended register their predicates with a new waiter, and the unmounted ones
+ * are left out.
+ *
+ * @typeParam T - The type of value stored in the Flow
+ * @param flow - The Flow to wait for
+ * @returns The new waiter
+ * @internal
+ */
+function createFlowWaiter<T>(flow: Flow<T>): FlowWaiter<T> {
+    const predicates = new Set<(value: T) => boolean>();
+
+    let resolve: (value: undefined) => void = () => undefined;
+    const promise = new Promise<undefined>((res) => {
+        resolve = res;
+    });
+
+    const settle = () => {
+        waiters.delete(flow);
+        subscription.unsubscribe();
+        clearTimeout(timer);
+        resolve(undefined);
+    };
+
+    const subscription = flow.subscribe(() => {
+        const value = flow.getSnapshot();
+        for (const predicate of predicates) {
+            if (predicate(value)) {
+                settle();
+                return;
+            }
+        }
+    });
+
+    const timer = setTimeout(settle, WAITER_SWEEP_INTERVAL);
+    // A pending wait must not keep a Node.js process alive
+    (timer as { unref?: () => void }).unref?.();
+
+    const waiter: FlowWaiter<T> = { promise, predicates };
+    waiters.set(flow, waiter as FlowWaiter<unknown>);
+
+    return waiter;
+}
@@ -0,0 +1,255 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { renderToString } from "react-dom/server";
+import { cleanup, act, renderHook, render, screen } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
+import { useFlows } from "./useFlows";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+declare function random(): boolean;
+
+describe("useFlows", () => {
+    afterEach(() => {
+        delete window._FS_;
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer tuple types", () => {
+            const numberFlow = createFlow(0);
+            const stringFlow = createFlow("");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const result = useFlows([numberFlow, stringFlow, skipToken]);
+                expectTypeOf(result).toEqualTypeOf<[number, string, null]>();
+
+                const conditional = useFlows([random() ? numberFlow : skipToken]);
+                expectTypeOf(conditional).toEqualTypeOf<[number | null]>();
+            }
+        });
+
+        it("should infer object types", () => {
+            const numberFlow = createFlow(0);
+            const stringFlow: Flow<string> | SkipToken = createFlow("");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                const result = useFlows({ count: numberFlow, name: stringFlow });
+                expectTypeOf(result).toEqualTypeOf<{ count: number; name: string | null }>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return values as a tuple", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow("foo");
+
+            const { result } = renderHook(() => useFlows([flow1, flow2]));
+
+            expect(result.current).toEqual([42, "foo"]);
+        });
+
+        it("should return values as an object", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow("foo");
+
+            const { result } = renderHook(() => useFlows({ count: flow1, name: flow2 }));
+
+            expect(result.current).toEqual({ count: 42, name: "foo" });
+        });
+
+        it("should update when any flow changes", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow("foo");
+            const { result } = renderHook(() => useFlows([flow1, flow2]));
+
+            act(() => {
+                flow2.emit("bar");
+            });
+
+            expect(result.current).toEqual([42, "bar"]);
+        });
+
+        it("should return a stable reference while values are unchanged", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow("foo");
+            const { result, rerender } = renderHook(() => useFlows([flow1, flow2]));
+            const initial = result.current;
+
+            rerender();
+
+            expect(result.current).toBe(initial);
+        });
+
+        it("should re-render once per batch of emits", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const flow3 = createFlow(3);
+            let renderCount = 0;
+
+            const { result } = renderHook(() => {
+                renderCount++;
+                return useFlows([flow1, flow2, flow3]);
+            });
+            expect(renderCount).toBe(1);
+
+            act(() => {
+                flow1.emit(10);
+                flow2.emit(20);
+                flow3.emit(30);
+            });
+
+            expect(renderCount).toBe(2);
+            expect(result.current).toEqual([10, 20, 30]);
+        });
+
+        it("should not re-render if snapshots are identical", () => {
+            const snapshot = { data: 42 };
+            const flow1 = createFlow(snapshot);
+            const flow2 = createFlow(0);
+            let renderCount = 0;
+
+            renderHook(() => {
+                renderCount++;
+                return useFlows([flow1, flow2]);
+            });
+
+            act(() => {
+                flow1.emit(snapshot);
+            });
+
+            expect(renderCount).toBe(1);
+        });
+
+        it("should subscribe once per flow and unsubscribe on unmount", () => {
+            const flow1 = createFlow(42);
+            const flow2 = createFlow("foo");
+            const { rerender, unmount } = renderHook(() => useFlows([flow1, flow2]));
+
+            rerender();
+
+            expect(getSubscriptionsCount(flow1)).toBe(1);
+            expect(getSubscriptionsCount(flow2)).toBe(1);
+
+            act(() => {
+                unmount();
+            });
+
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(0);
+        });
+
+        it("should handle flow reference changes", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const flow3 = createFlow(3);
+            const { result, rerender } = renderHook((flows: Flow<number>[]) => useFlows(flows), {
+                initialProps: [flow1, flow2],
+            });
+
+            expect(result.current).toEqual([1, 2]);
+
+            rerender([flow1, flow3]);
+
+            expect(result.current).toEqual([1, 3]);
+            expect(getSubscriptionsCount(flow1)).toBe(1);
+            expect(getSubscriptionsCount(flow2)).toBe(0);
+            expect(getSubscriptionsCount(flow3)).toBe(1);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return null for skipped entries", () => {
+            const flow = createFlow(42);
+
+            const { result } = renderHook(() => useFlows([flow, skipToken]));
+
+            expect(result.current).toEqual([42, null]);
+        });
+
+        it("should switch entries between flow and skipToken", () => {
+            const flow = createFlow(42);
+            const { result, rerender } = renderHook((entry: Flow<number> | SkipToken) => useFlows({ value: entry }), {
+                initialProps: flow as Flow<number> | SkipToken,
+            });
+
+            expect(result.current).toEqual({ value: 42 });
+
+            rerender(skipToken);
+
+            expect(result.current).toEqual({ value: null });
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+
+    describe("hydration behavior", () => {
+        it("should register every value on the server", () => {
+            const flow1 = createFlow("first");
+            const flow2 = createFlow("second");
+            const manager = createServerHydrationManager();
+
+            const TestComponent = () => {
+                const { a, b } = useFlows({ a: flow1, b: flow2 });
+                return (
+                    <div>
+                        {a} {b}
+                    </div>
+                );
+            };
+
+            const html = renderToString(
+                <FlowHydrationProvider manager={manager}>
+                    <TestComponent />
+                </FlowHydrationProvider>,
+            );
+
+            expect(html).toBe("<div>first<!-- --> <!-- -->second</div>");
+            expect(manager.getScript()).toContain('_FS_.m(new Map([["_R_0_a","first"],["_R_0_b","second"]]));');
+        });
+
+        it("should read server values during hydration", () => {
+            const flow1 = createFlow("client first");
+            const flow2 = createFlow("client second");
+            const manager = createClientHydrationManager();
+            window._FS_ = new Map([
+                ["_R_0_0", "server first"],
+                ["_R_0_1", "server second"],
+            ]);
+
+            const container = document.createElement("div");
+            container.innerHTML = '<div data-testid="value">server first, server second</div>';
+            document.body.appendChild(container);
+
+            const TestComponent = () => {
+                const [first, second] = useFlows([flow1, flow2]);
+                return <div data-testid="value">{`${first}, ${second}`}</div>;
+            };
+
+            render(<TestComponent />, {
+                container,
+                wrapper({ children }) {
+                    return <FlowHydrationProvider manager={manager}>{children}</FlowHydrationProvider>;
+                },
+                hydrate: true,
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("client first, client second");
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
@@ -0,0 +1,76 @@
+import { useCallback, useId, useMemo, useSyncExternalStore } from "react";
+import { useHydration } from "../hydration/context";
+import { combineFlows, type FlowsInput, type FlowsValues } from "../flows/combineFlows";
+import { useResolvedFlows } from "./useScopedFlow";
+import { useShallowStable } from "./useShallowStable";
+
+/**
+ * Subscribes to several Flows at once and returns their current values.
+ *
+ * All flows are read through a single subscription, so the returned values always come from
+ * the same moment in time and the component re-renders at most once per batch of emits.
+ * The flows can be passed as an array, which returns a tuple of values, or as an object,
+ * which returns an object of values with the same keys.
+ *
+ * @typeParam T - The array or the object of flows
+ *
+ * @param flows - The Flow instances to subscribe to. Any entry can be a scoped flow, or `skipToken` to skip it.
+ * @returns The current values of the flows, with `null` in place of skipped entries
+ *
+ * @example
+ * ```tsx
+ * function Dashboard() {
+ *   const [user, settings, notifications] = useFlows([userFlow, settingsFlow, notificationsFlow]);
+ *   return <Layout user={user} settings={settings} notifications={notifications} />;
+ * }
+ * ```
+ *
+ * @example
+ * Object form with a conditional entry:
+ * ```tsx
+ * function Profile({ showPosts }: { showPosts: boolean }) {
+ *   const { user, posts } = useFlows({
+ *     user: userFlow,
+ *     posts: showPosts ? postsFlow : skipToken,
+ *   });
+ *   return <ProfileView user={user} posts={posts ?? []} />;
+ * }
+ * ```
+ */
+export function useFlows<const T extends FlowsInput>(flows: T): FlowsValues<T> {
+    const stableFlows = useShallowStable(useResolvedFlows(flows));
+    const combined = useMemo(() => combineFlows(stableFlows), [stableFlows]);
+
+    const subscribe = useCallback(
+        (notify: () => void) => {
+            return combined.subscribe(notify).unsubscribe;
+        },
+        [combined],
+    );
+
+    const getSnapshot = useCallback(() => {
+        return combined.getSnapshot();
+    }, [combined]);
+
+    const flowId = useId();
+    const hydration = useHydration();
+
+    const getServerSnapshot = useCallback(() => {
+        return combined.combine((flow, key) => {
+            // NOTE: should calculate the actual value regardless of hydration.
+            // This helps to speed up async computations when hydration finishes.
+            const value = flow.getSnapshot();
+
+            if (hydration) {
+                const id = flowId + key;
+                const serverValue = hydration.hydrate(id);
+                if (serverValue) return serverValue.value;
+                hydration.register(id, flow, value);
+            }
+
+            return value;
+        });
+    }, [combined, flowId, hydration]);
+
+    return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, afterEach, vi, expectTypeOf } from "vitest";
+import { cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { useFlowsEffect } from "./useFlowsEffect";
+
+describe("useFlowsEffect", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer handler parameter types", () => {
+            const numberFlow = createFlow(0);
+            const stringFlow = createFlow("");
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                useFlowsEffect([numberFlow, stringFlow, skipToken], (num, str, skipped, signal) => {
+                    expectTypeOf(num).toEqualTypeOf<number>();
+                    expectTypeOf(str).toEqualTypeOf<string>();
+                    expectTypeOf(skipped).toEqualTypeOf<null>();
+                    expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+                });
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should call handler with initial values on mount", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow("a");
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowsEffect([flow1, flow2], handler);
+            });
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(1, "a", expect.any(AbortSignal));
+        });
+
+        it("should batch emits from all flows into one handler call", async () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow("a");
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowsEffect([flow1, flow2], handler);
+            });
+
+            handler.mockClear();
+
+            await act(async () => {
+                flow1.emit(2);
+                flow2.emit("b");
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(2, "b", expect.any(AbortSignal));
+        });
+
+        it("should call teardown before the next call and on unmount", async () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const teardown = vi.fn();
+
+            const { unmount } = renderHook(() => {
+                useFlowsEffect([flow1, flow2], () => teardown);
+            });
+
+            await act(async () => {
+                flow2.emit(3);
+                await Promise.resolve();
+            });
+
+            expect(teardown).toHaveBeenCalledTimes(1);
+
+            unmount();
+
+            expect(teardown).toHaveBeenCalledTimes(2);
+            expect(getSubscriptionsCount(flow1)).toBe(0);
+            expect(getSubscriptionsCount(flow2)).toBe(0);
+        });
+
+        it("should not resubscribe when array is recreated with the same flows", () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const subscribe = vi.spyOn(flow1, "subscribe");
+            const handler = vi.fn();
+
+            const { rerender } = renderHook(() => {
+                useFlowsEffect([flow1, flow2], handler);
+            });
+
+            rerender();
+
+            expect(subscribe).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+
+        it("should pass options to the effect", async () => {
+            const flow1 = createFlow(1);
+            const flow2 = createFlow(2);
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowsEffect([flow1, flow2], handler, { skipInitial: true });
+            });
+
+            expect(handler).not.toHaveBeenCalled();
+
+            await act(async () => {
+                flow1.emit(3);
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenCalledWith(3, 2, expect.any(AbortSignal));
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should pass null for skipped entries", async () => {
+            const flow = createFlow(1);
+            const handler = vi.fn();
+
+            renderHook(() => {
+                useFlowsEffect([flow, skipToken], handler);
+            });
+
+            expect(handler).toHaveBeenCalledWith(1, null, expect.any(AbortSignal));
+
+            await act(async () => {
+                flow.emit(2);
+                await Promise.resolve();
+            });
+
+            expect(handler).toHaveBeenLastCalledWith(2, null, expect.any(AbortSignal));
+        });
+
+        it("should not call handler when flows is skipToken", () => {
+            const flow = createFlow(1);
+            const handler = vi.fn();
+
+            const { rerender } = renderHook(
+                (flows: readonly [Flow<number>] | SkipToken) => {
+                    useFlowsEffect(flows, handler);
+                },
+                { initialProps: skipToken as readonly [Flow<number>] | SkipToken },
+            );
+
+            expect(handler).not.toHaveBeenCalled();
+
+            rerender([flow]);
+
+            expect(handler).toHaveBeenCalledWith(1, expect.any(AbortSignal));
+            expect(getSubscriptionsCount(flow)).toBe(1);
+
+            rerender(skipToken);
+
+            expect(getSubscriptionsCount(flow)).toBe(0);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
@@ -0,0 +1,69 @@
+import type { Flow } from "@tsip/types";
+import { useMemo } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import { combineFlows, type FlowsValues } from "../flows/combineFlows";
+import { useFlowEffect, type UseFlowEffectOptions } from "./useFlowEffect";
+import { useShallowStable } from "./useShallowStable";
+
+/**
+ * A handler of {@link useFlowsEffect}, called with the values of all flows followed by an abort signal.
+ *
+ * @typeParam T - The array of flows
+ */
+export type FlowsEffectHandler<T extends readonly (Flow<unknown> | SkipToken)[]> = (
+    ...args: [...FlowsValues<T>, AbortSignal]
+    // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+) => (() => void) | void | Promise<unknown>;
+
+/**
+ * Subscribes to several Flows at once and runs a handler with all their values whenever any of them changes.
+ *
+ * Works like {@link useFlowEffect} over the combination of the flows: emits from all flows in the same
+ * task are batched into a single handler call, and the handler supports cleanup functions, abort signals
+ * and the same options. The handler receives the values in the order of the flows, followed by the signal.
+ *
+ * @typeParam T - The array of flows
+ *
+ * @param flows - The Flow instances to subscribe to, or `skipToken` to skip subscription.
+ *   Any entry can be `skipToken` to skip it, its value is `null`.
+ * @param handler - Function called with the current values. Can return a cleanup function or a promise.
+ * @param options - The same options as for {@link useFlowEffect}, `isEqual` compares the arrays of values
+ *
+ * @example
+ * ```tsx
+ * function PersistSearch() {
+ *   useFlowsEffect([filtersFlow, sortFlow], (filters, sort) => {
+ *     localStorage.setItem("search", JSON.stringify({ filters, sort }));
+ *   });
+ *   return null;
+ * }
+ * ```
+ *
+ * @example
+ * Async handler with a conditional entry:
+ * ```tsx
+ * function SyncSearch({ withUser }: { withUser: boolean }) {
+ *   useFlowsEffect([queryFlow, withUser ? userFlow : skipToken], async (query, user, signal) => {
+ *     await saveSearch({ query, userId: user?.id }, signal);
+ *   });
+ *   return null;
+ * }
+ * ```
+ */
+export function useFlowsEffect<const T extends readonly (Flow<unknown> | SkipToken)[]>(
+    flows: T | SkipToken,
+    handler: FlowsEffectHandler<T>,
+    options?: UseFlowEffectOptions<FlowsValues<T>>,
+): void {
+    const stableFlows = useShallowStable(flows);
+    const combined = useMemo(() => (stableFlows === skipToken ? skipToken : combineFlows(stableFlows)), [stableFlows]);
+
+    useFlowEffect(
+        combined,
+        (values, signal) => {
+            const args = [...values, signal] as [...FlowsValues<T>, AbortSignal];
+            return handler(...args);
+        },
+        options,
+    );
+}
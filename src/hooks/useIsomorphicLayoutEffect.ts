@@ -0,0 +1,7 @@
+import { useEffect, useLayoutEffect } from "react";
+
+/**
+ * Layout effect on the client and regular effect on the server, where layout effects do not run.
+ * @internal
+ */
+export const useIsomorphicLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
@@ -0,0 +1,411 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { renderToString } from "react-dom/server";
+import { render, screen, cleanup, act, renderHook } from "@testing-library/react";
+import type { MutableFlow } from "@tsip/types";
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import { createFlowHydrationManager as createClientHydrationManager } from "../hydration/client";
+import { FlowScopeProvider } from "../scope/context";
+import { createFlowScope, defineScopedFlow, type ScopedFlow } from "../scope/scope";
+import { useAsyncFlow } from "./useAsyncFlow";
+import { useAsyncFlowEffect } from "./useAsyncFlowEffect";
+import { useFlow } from "./useFlow";
+import { useFlowEffect } from "./useFlowEffect";
+import { useFlowGetter } from "./useFlowGetter";
+import { useFlowPromise } from "./useFlowPromise";
+import { useFlowReducer } from "./useFlowReducer";
+import { useFlowRef } from "./useFlowRef";
+import { useFlows } from "./useFlows";
+import { useFlowSelector } from "./useFlowSelector";
+import { useFlowState } from "./useFlowState";
+import { useFlowSubscription } from "./useFlowSubscription";
+import { useFlowWhen } from "./useFlowWhen";
+import { useScopedFlow } from "./useScopedFlow";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+const originalWindow = globalThis.window;
+
+describe("useScopedFlow", () => {
+    afterEach(() => {
+        cleanup();
+        globalThis.window = originalWindow;
+        delete window._FS_;
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const userFlow = defineScopedFlow(() => createAsyncFlow<string>({ status: "pending" }));
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useScopedFlow(counterFlow)).toEqualTypeOf<MutableFlow<number>>();
+                expectTypeOf(useFlow(counterFlow)).toEqualTypeOf<number>();
+                expectTypeOf(useFlowSelector(counterFlow, String)).toEqualTypeOf<string>();
+                expectTypeOf(useAsyncFlow(userFlow)[0]).toEqualTypeOf<() => string>();
+                expectTypeOf(useFlowState(counterFlow)[0]).toEqualTypeOf<number>();
+                expectTypeOf(useFlowReducer(counterFlow, (state, by: number) => state + by)[0]).toEqualTypeOf<number>();
+                expectTypeOf(useFlows([counterFlow, userFlow])[0]).toEqualTypeOf<number>();
+                expectTypeOf(useFlowRef(counterFlow).current).toEqualTypeOf<number>();
+                expectTypeOf(useFlowGetter(counterFlow)).toEqualTypeOf<() => number>();
+                expectTypeOf(useFlowWhen(counterFlow, (count) => count > 0)).toEqualTypeOf<number>();
+                expectTypeOf(useFlowPromise(userFlow)).toEqualTypeOf<Promise<string>>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should share the instance within a scope", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+
+            const Counter = ({ testId }: { testId: string }) => {
+                return <div data-testid={testId}>{useFlow(useScopedFlow(counterFlow))}</div>;
+            };
+
+            const Increment = () => {
+                const counter = useScopedFlow(counterFlow);
+                return (
+                    <button
+                        onClick={() => {
+                            counter.emit(counter.getSnapshot() + 1);
+                        }}
+                    >
+                        increment
+                    </button>
+                );
+            };
+
+            render(
+                <>
+                    <FlowScopeProvider>
+                        <Counter testId="first" />
+                        <Increment />
+                    </FlowScopeProvider>
+                    <FlowScopeProvider>
+                        <Counter testId="second" />
+                    </FlowScopeProvider>
+                </>,
+            );
+
+            act(() => {
+                screen.getByText("increment").click();
+            });
+
+            expect(screen.getByTestId("first")).toHaveTextContent("1");
+            expect(screen.getByTestId("second")).toHaveTextContent("0");
+        });
+
+        it("should create the instance once per provider", () => {
+            const factory = vi.fn(() => createFlow(0));
+            const counterFlow = defineScopedFlow(factory);
+
+            const { rerender } = renderHook(() => useScopedFlow(counterFlow), {
+                wrapper: FlowScopeProvider,
+            });
+
+            rerender();
+
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        it("should use the provided scope", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(() => useScopedFlow(counterFlow), {
+                wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider>,
+            });
+
+            expect(result.current).toBe(scope.get(counterFlow));
+        });
+
+        it("should throw without a provider", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            vi.spyOn(console, "error").mockImplementation(() => {
+                // suppress React error logging
+            });
+
+            expect(() => renderHook(() => useScopedFlow(counterFlow))).toThrow(
+                "Scoped flows must be used inside a FlowScopeProvider",
+            );
+
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe("reading hooks", () => {
+        it("should read the instance of a scoped flow with useFlow", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(() => useFlow(counterFlow), {
+                wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider>,
+            });
+
+            expect(result.current).toBe(0);
+
+            act(() => {
+                scope.get(counterFlow).emit(5);
+            });
+
+            expect(result.current).toBe(5);
+        });
+
+        it("should read the instance of a scoped flow with useFlowSelector", () => {
+            const userFlow = defineScopedFlow(() => createFlow({ name: "John", age: 30 }));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(() => useFlowSelector(userFlow, (user) => user.name), {
+                wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider>,
+            });
+
+            expect(result.current).toBe("John");
+
+            act(() => {
+                scope.get(userFlow).emit({ name: "Jane", age: 30 });
+            });
+
+            expect(result.current).toBe("Jane");
+        });
+
+        it("should read the instance of a scoped AsyncFlow with useAsyncFlow", () => {
+            const userFlow = defineScopedFlow(() => createAsyncFlow<string>({ status: "success", data: "John" }));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(() => useAsyncFlow(userFlow), {
+                wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider>,
+            });
+
+            expect(result.current[0]()).toBe("John");
+
+            act(() => {
+                scope.get(userFlow).emit({ status: "success", data: "Jane" });
+            });
+
+            expect(result.current[0]()).toBe("Jane");
+        });
+
+        it("should update the instance of a scoped flow with useFlowState and useFlowReducer", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(
+                () => ({
+                    state: useFlowState(counterFlow),
+                    reducer: useFlowReducer(counterFlow, (state, by: number) => state + by),
+                }),
+                { wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider> },
+            );
+
+            act(() => {
+                result.current.state[1](5);
+            });
+
+            expect(scope.get(counterFlow).getSnapshot()).toBe(5);
+
+            act(() => {
+                result.current.reducer[1](2);
+            });
+
+            expect(scope.get(counterFlow).getSnapshot()).toBe(7);
+            expect(result.current.state[0]).toBe(7);
+        });
+
+        it("should read the instances of scoped flows with useFlows", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const nameFlow = createFlow("John");
+            const scope = createFlowScope();
+
+            const { result } = renderHook(() => useFlows({ count: counterFlow, name: nameFlow }), {
+                wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider>,
+            });
+
+            expect(result.current).toEqual({ count: 0, name: "John" });
+
+            act(() => {
+                scope.get(counterFlow).emit(5);
+            });
+
+            expect(result.current).toEqual({ count: 5, name: "John" });
+        });
+
+        it("should read the instance of a scoped flow with useFlowRef, useFlowGetter and useFlowWhen", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(1));
+            const scope = createFlowScope();
+
+            const { result } = renderHook(
+                () => ({
+                    ref: useFlowRef(counterFlow),
+                    get: useFlowGetter(counterFlow),
+                    when: useFlowWhen(counterFlow, (count) => count > 0),
+                }),
+                { wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider> },
+            );
+
+            expect(result.current.when).toBe(1);
+
+            act(() => {
+                scope.get(counterFlow).emit(5);
+            });
+
+            expect(result.current.ref.current).toBe(5);
+            expect(result.current.get()).toBe(5);
+            expect(result.current.when).toBe(5);
+        });
+
+        it("should subscribe effects to the instance of a scoped flow", async () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            const userFlow = defineScopedFlow(() => createAsyncFlow<string>({ status: "pending" }));
+            const scope = createFlowScope();
+            const effect = vi.fn<(count: number) => void>();
+            const listener = vi.fn<(count: number) => void>();
+            const onSuccess = vi.fn();
+
+            const { result } = renderHook(
+                () => {
+                    useFlowEffect(counterFlow, effect);
+                    useFlowSubscription(counterFlow, listener);
+                    useAsyncFlowEffect(userFlow, { onSuccess });
+                    return useFlowPromise(userFlow);
+                },
+                { wrapper: ({ children }) => <FlowScopeProvider scope={scope}>{children}</FlowScopeProvider> },
+            );
+
+            await act(async () => {
+                scope.get(counterFlow).emit(5);
+                scope.get(userFlow).emit({ status: "success", data: "John" });
+                await Promise.resolve();
+            });
+
+            expect(effect.mock.calls.map(([count]) => count)).toEqual([0, 5]);
+            expect(listener.mock.calls).toEqual([[5]]);
+            expect(onSuccess).toHaveBeenCalledTimes(1);
+            await expect(result.current).resolves.toBe("John");
+        });
+
+        it("should throw without a provider", () => {
+            const counterFlow = defineScopedFlow(() => createFlow(0));
+            vi.spyOn(console, "error").mockImplementation(() => {
+                // suppress React error logging
+            });
+
+            expect(() => renderHook(() => useFlow(counterFlow))).toThrow(
+                "Scoped flows must be used inside a FlowScopeProvider",
+            );
+
+            vi.restoreAllMocks();
+        });
+    });
+
+    describe("server-side rendering", () => {
+        it("should isolate the data of different requests", () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const sessionFlow = defineScopedFlow(() => createFlow("anonymous"));
+
+            const User = () => <div>{useFlow(useScopedFlow(sessionFlow))}</div>;
+
+            const handleRequest = (user: string) => {
+                const scope = createFlowScope();
+                scope.get(sessionFlow).emit(user);
+
+                return renderToString(
+                    <FlowScopeProvider scope={scope}>
+                        <User />
+                    </FlowScopeProvider>,
+                );
+            };
+
+            expect(handleRequest("alice")).toBe("<div>alice</div>");
+            expect(handleRequest("bob")).toBe("<div>bob</div>");
+            expect(
+                renderToString(
+                    <FlowScopeProvider>
+                        <User />
+                    </FlowScopeProvider>,
+                ),
+            ).toBe("<div>anonymous</div>");
+        });
+
+        it("should seed the client instance of a scoped flow with a key", async () => {
+            const sessionFlow = defineScopedFlow(() => createFlow("anonymous"), { key: "session" });
+
+            const { html } = await hydrateScopedFlow(sessionFlow);
+
+            expect(html).toContain("scoped:session");
+            expect(screen.getByTestId("value")).toHaveTextContent("alice");
+        });
+
+        it("should hydrate scoped flows of the scope created by the provider", () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const sessionFlow = defineScopedFlow(() => createFlow("anonymous"), { key: "session" });
+            const manager = createServerHydrationManager();
+
+            const User = () => <div>{useFlow(sessionFlow)}</div>;
+
+            renderToString(
+                <FlowHydrationProvider manager={manager}>
+                    <FlowScopeProvider>
+                        <User />
+                        <User />
+                    </FlowScopeProvider>
+                </FlowHydrationProvider>,
+            );
+
+            expect(manager.getScript()).toContain("scoped:session");
+        });
+    });
+});
+
+async function hydrateScopedFlow(sessionFlow: ScopedFlow<MutableFlow<string>>) {
+    // @ts-expect-error emulate serder-side env
+    delete globalThis.window;
+
+    const serverManager = createServerHydrationManager();
+    const scope = createFlowScope({ hydration: serverManager });
+    scope.get(sessionFlow).emit("alice");
+
+    const User = () => <div data-testid="value">{useFlow(useScopedFlow(sessionFlow))}</div>;
+
+    const body = renderToString(
+        <FlowHydrationProvider manager={serverManager}>
+            <FlowScopeProvider scope={scope}>
+                <User />
+            </FlowScopeProvider>
+        </FlowHydrationProvider>,
+    );
+    const html = `<script>${serverManager.getScript() ?? ""}</script>${body}`;
+
+    globalThis.window = originalWindow;
+
+    const hydrationContainer = document.createElement("div");
+    hydrationContainer.innerHTML = html;
+    document.body.appendChild(hydrationContainer);
+    hydrationContainer.querySelectorAll("script").forEach((script) => {
+        (0, eval)(script.textContent);
+    });
+
+    render(
+        <FlowHydrationProvider manager={createClientHydrationManager()}>
+            <FlowScopeProvider>
+                <User />
+            </FlowScopeProvider>
+        </FlowHydrationProvider>,
+        {
+            container: hydrationContainer,
+            hydrate: true,
+        },
+    );
+
+    // wait for hydration
+    await new Promise((r) => setTimeout(r, 100));
+
+    return { html };
+}
@@ -0,0 +1,88 @@
+import type { Flow } from "@tsip/types";
+import type { SkipToken } from "../skipToken";
+import type { FlowsInput } from "../flows/combineFlows";
+import { useFlowScope } from "../scope/context";
+import { isScopedFlow, type FlowScope, type ScopedFlow } from "../scope/scope";
+
+/**
+ * Returns the instance of a scoped flow in the scope of the nearest {@link FlowScopeProvider}.
+ *
+ * The instance is a regular flow, so it can be passed to child components and non-React code.
+ * Hooks that read or update a flow, such as {@link useFlow}, {@link useFlowState} and {@link useAsyncFlow},
+ * and {@link useFlows} also accept the scoped flow itself and use its instance.
+ *
+ * If the scoped flow has a key, its value is transferred through the {@link FlowHydrationManager}
+ * of the scope: the server registers the value of the instance, and the client seeds its new instance
+ * with it before the instance is returned.
+ *
+ * @typeParam F - The type of the flow
+ * @param flow - The definition of the scoped flow
+ * @returns The instance of the flow in the current scope
+ * @throws An error if there is no {@link FlowScopeProvider} above the component
+ *
+ * @example
+ * ```tsx
+ * const cartFlow = defineScopedFlow(() => createFlow<CartItem[]>([]), { key: "cart" });
+ *
+ * function AddToCart({ item }: { item: CartItem }) {
+ *   const cart = useScopedFlow(cartFlow);
+ *   return <button onClick={() => cart.emit([...cart.getSnapshot(), item])}>Add to cart</button>;
+ * }
+ * ```
+ */
+export function useScopedFlow<F extends Flow<unknown>>(flow: ScopedFlow<F>): F {
+    return getScopedFlowInstance(useFlowScope(), flow);
+}
+
+/**
+ * Resolves a scoped flow to its instance in the scope of the nearest {@link FlowScopeProvider},
+ * and returns flows and `skipToken` as is. Lets hooks that read flows accept scoped flows.
+ *
+ * @typeParam F - The type of the flow
+ * @param flow - A flow, a scoped flow or `skipToken`
+ * @returns The flow to read
+ * @throws An error if a scoped flow is passed without a {@link FlowScopeProvider} above the component
+ * @internal
+ */
+export function useResolvedFlow<F extends Flow<unknown>>(flow: F | ScopedFlow<F>): F;
+export function useResolvedFlow<F extends Flow<unknown>>(flow: F | ScopedFlow<F> | SkipToken): F | SkipToken;
+export function useResolvedFlow<F extends Flow<unknown>>(flow: F | ScopedFlow<F> | SkipToken): F | SkipToken {
+    const scope = useFlowScope();
+    return isScopedFlow(flow) ? getScopedFlowInstance(scope, flow) : flow;
+}
+
+/**
+ * Resolves the scoped flows of a list or a map of flows, like {@link useResolvedFlow} does for a single flow.
+ *
+ * @typeParam T - The list or the map of flows
+ * @param flows - The flows, any of which can be a scoped flow or `skipToken`
+ * @returns The same flows if none of them is scoped, otherwise a copy with the instances in place of scoped flows
+ * @throws An error if a scoped flow is passed without a {@link FlowScopeProvider} above the component
+ * @internal
+ */
+export function useResolvedFlows<T extends FlowsInput>(flows: T): T {
+    const scope = useFlowScope();
+
+    if (!Object.values(flows).some(isScopedFlow)) {
+        return flows;
+    }
+
+    const resolve = (flow: unknown) => (isScopedFlow(flow) ? getScopedFlowInstance(scope, flow) : flow);
+    return (
+        Array.isArray(flows)
+            ? flows.map(resolve)
+            : Object.fromEntries(Object.entries(flows).map(([key, flow]) => [key, resolve(flow)]))
+    ) as T;
+}
+
+/**
+ * Returns the instance of a scoped flow in the scope.
+ * @internal
+ */
+function getScopedFlowInstance<F extends Flow<unknown>>(scope: FlowScope | null, flow: ScopedFlow<F>): F {
+    if (!scope) {
+        throw new Error("Scoped flows must be used inside a FlowScopeProvider");
+    }
+
+    return scope.get(flow);
+}
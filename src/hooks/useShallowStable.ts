@@ -0,0 +1,25 @@
+import { useState } from "react";
+import { shallowEqual } from "../equality";
+
+/**
+ * Returns a referentially stable version of a value that is recreated on every render,
+ * such as an array or an object literal of flows.
+ *
+ * The previously returned value is kept while the new value is shallowly equal to it.
+ *
+ * @typeParam T - The type of the value
+ * @param value - The value to stabilize
+ * @returns The previous value if it is shallowly equal to the new one, otherwise the new value
+ *
+ * @internal
+ */
+export function useShallowStable<T>(value: T): T {
+    const [stable, setStable] = useState(value);
+
+    if (!shallowEqual(stable, value)) {
+        setStable(value);
+        return value;
+    }
+
+    return stable;
+}
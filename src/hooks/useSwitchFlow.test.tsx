@@ -0,0 +1,259 @@
+import { describe, expectTypeOf, it, expect, afterEach } from "vitest";
+import { Suspense } from "react";
+import { renderToString } from "react-dom/server";
+import { render, screen, cleanup, act, renderHook, waitFor } from "@testing-library/react";
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import { skipToken, type SkipToken } from "../skipToken";
+import { FlowHydrationProvider } from "../hydration/context";
+import { createFlowHydrationManager as createServerHydrationManager } from "../hydration/server";
+import type { SkippedState, UseAsyncFlowResult } from "./useAsyncFlow";
+import { useSwitchAsyncFlow, useSwitchFlow } from "./useSwitchFlow";
+
+declare const window: Global & {
+    _FS_: Map<string, unknown> | undefined;
+};
+
+const originalWindow = globalThis.window;
+
+describe("useSwitchFlow", () => {
+    afterEach(() => {
+        delete window._FS_;
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const outer = createFlow<Flow<number>>(createFlow(0));
+            const optionalOuter = createFlow<Flow<number> | SkipToken>(skipToken);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useSwitchFlow(outer)).toEqualTypeOf<number>();
+                expectTypeOf(useSwitchFlow(optionalOuter)).toEqualTypeOf<number | null>();
+                expectTypeOf(useSwitchFlow(skipToken)).toEqualTypeOf<null>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the value of the inner flow", () => {
+            const inner = createFlow(42);
+            const outer = createFlow<Flow<number>>(inner);
+
+            const { result } = renderHook(() => useSwitchFlow(outer));
+
+            expect(result.current).toBe(42);
+
+            act(() => {
+                inner.emit(108);
+            });
+
+            expect(result.current).toBe(108);
+        });
+
+        it("should switch to the latest inner flow", () => {
+            const inner1 = createFlow(1);
+            const inner2 = createFlow(2);
+            const outer = createFlow<Flow<number>>(inner1);
+
+            const { result } = renderHook(() => useSwitchFlow(outer));
+
+            expect(getSubscriptionsCount(inner1)).toBe(1);
+
+            act(() => {
+                outer.emit(inner2);
+            });
+
+            expect(result.current).toBe(2);
+            expect(getSubscriptionsCount(inner1)).toBe(0);
+            expect(getSubscriptionsCount(inner2)).toBe(1);
+
+            act(() => {
+                inner1.emit(10);
+                inner2.emit(20);
+            });
+
+            expect(result.current).toBe(20);
+        });
+
+        it("should unsubscribe from both flows on unmount", () => {
+            const inner = createFlow(1);
+            const outer = createFlow<Flow<number>>(inner);
+
+            const { unmount } = renderHook(() => useSwitchFlow(outer));
+
+            unmount();
+
+            expect(getSubscriptionsCount(inner)).toBe(0);
+            expect(getSubscriptionsCount(outer)).toBe(0);
+        });
+
+        it("should not register the outer flow for hydration", () => {
+            // @ts-expect-error emulate serder-side env
+            delete globalThis.window;
+
+            const outer = createFlow<Flow<string>>(createFlow("server value"));
+            const manager = createServerHydrationManager();
+
+            const TestComponent = () => <div>{useSwitchFlow(outer)}</div>;
+
+            const html = renderToString(
+                <FlowHydrationProvider manager={manager}>
+                    <TestComponent />
+                </FlowHydrationProvider>,
+            );
+            const script = manager.getScript();
+
+            globalThis.window = originalWindow;
+
+            expect(html).toBe("<div>server value</div>");
+            expect(script).toContain('"server value"');
+            expect(script?.match(/_R_/g)).toHaveLength(1);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return null when the outer flow emits skipToken", () => {
+            const inner = createFlow(1);
+            const outer = createFlow<Flow<number> | SkipToken>(inner);
+
+            const { result } = renderHook(() => useSwitchFlow(outer));
+
+            expect(result.current).toBe(1);
+
+            act(() => {
+                outer.emit(skipToken);
+            });
+
+            expect(result.current).toBeNull();
+            expect(getSubscriptionsCount(inner)).toBe(0);
+        });
+
+        it("should return null when skipToken is passed", () => {
+            const { result } = renderHook(() => useSwitchFlow(skipToken));
+
+            expect(result.current).toBeNull();
+        });
+    });
+});
+
+describe("useSwitchAsyncFlow", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            const outer = createFlow<AsyncFlow<number>>(createAsyncFlow({ status: "success", data: 0 }));
+            const optionalOuter = createFlow<AsyncFlow<number> | SkipToken>(skipToken);
+
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useSwitchAsyncFlow(outer)).toEqualTypeOf<UseAsyncFlowResult<number>>();
+                expectTypeOf(useSwitchAsyncFlow(optionalOuter)).toEqualTypeOf<
+                    UseAsyncFlowResult<number> | [null, SkippedState, null]
+                >();
+                expectTypeOf(useSwitchAsyncFlow(outer, { select: (value) => String(value) })).toEqualTypeOf<
+                    UseAsyncFlowResult<string>
+                >();
+                expectTypeOf(useSwitchAsyncFlow(skipToken)).toEqualTypeOf<[null, SkippedState, null]>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return the state of the latest inner flow", () => {
+            const inner1 = createAsyncFlow({ status: "success", data: 1 });
+            const inner2 = createAsyncFlow({ status: "success", data: 2 });
+            const outer = createFlow<AsyncFlow<number>>(inner1);
+
+            const { result } = renderHook(() => useSwitchAsyncFlow(outer));
+
+            expect(result.current[0]()).toBe(1);
+
+            act(() => {
+                outer.emit(inner2);
+            });
+
+            expect(result.current[0]()).toBe(2);
+            expect(result.current[1]).toMatchObject({ isLoading: false, isError: false, currentData: 2 });
+            expect(getSubscriptionsCount(inner1)).toBe(0);
+            expect(getSubscriptionsCount(inner2)).toBe(1);
+        });
+
+        it("should suspend when switching to a pending flow", async () => {
+            const inner1 = createAsyncFlow({ status: "success", data: "first" });
+            const inner2 = createAsyncFlow<string>({ status: "pending" });
+            const outer = createFlow<AsyncFlow<string>>(inner1);
+
+            const TestComponent = () => {
+                const [data] = useSwitchAsyncFlow(outer);
+                return <div data-testid="value">{data()}</div>;
+            };
+
+            render(
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <TestComponent />
+                </Suspense>,
+            );
+
+            expect(screen.getByTestId("value")).toHaveTextContent("first");
+
+            await act(async () => {
+                outer.emit(inner2);
+                await Promise.resolve();
+            });
+
+            expect(screen.getByTestId("fallback")).toBeInTheDocument();
+
+            await act(async () => {
+                inner2.emit({ status: "success", data: "second" });
+                await Promise.resolve();
+            });
+
+            await waitFor(() => {
+                expect(screen.getByTestId("value")).toHaveTextContent("second");
+            });
+        });
+
+        it("should pass options to useAsyncFlow", () => {
+            const inner1 = createAsyncFlow({ status: "success", data: 1 });
+            const inner2 = createAsyncFlow<number>({ status: "pending" });
+            const outer = createFlow<AsyncFlow<number>>(inner1);
+
+            const { result } = renderHook(() => useSwitchAsyncFlow(outer, { placeholder: "previous" }));
+
+            act(() => {
+                outer.emit(inner2);
+            });
+
+            expect(result.current[0]()).toBe(1);
+            expect(result.current[1].isPlaceholderData).toBe(true);
+        });
+    });
+
+    describe("skipToken behavior", () => {
+        it("should return skipped state when the outer flow emits skipToken", () => {
+            const outer = createFlow<AsyncFlow<number> | SkipToken>(skipToken);
+
+            const { result } = renderHook(() => useSwitchAsyncFlow(outer));
+
+            expect(result.current[0]).toBeNull();
+            expect(result.current[1]).toMatchObject({ isLoading: false, currentData: undefined });
+
+            act(() => {
+                outer.emit(createAsyncFlow({ status: "success", data: 1 }));
+            });
+
+            expect(result.current[0]?.()).toBe(1);
+        });
+    });
+});
+
+function getSubscriptionsCount(flow: Flow<unknown>): number {
+    // @ts-expect-error in tests we use an implementation that allows reading the number of subscriptions
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const subscriptions: Set<unknown> = flow.subscriptions;
+    return subscriptions.size;
+}
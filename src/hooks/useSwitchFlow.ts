@@ -0,0 +1,121 @@
+import type { AsyncFlow, Flow, InferAsyncFlowValue } from "@tsip/types";
+import { useCallback, useSyncExternalStore } from "react";
+import { skipToken, type SkipToken } from "../skipToken";
+import {
+    useAsyncFlow,
+    type InferAsyncFlowControls,
+    type SkippedState,
+    type UseAsyncFlowOptions,
+    type UseAsyncFlowResult,
+} from "./useAsyncFlow";
+import { useFlow } from "./useFlow";
+
+/**
+ * Subscribes to a Flow of Flows and returns the value of the latest inner Flow.
+ *
+ * Whenever the outer Flow emits a new inner Flow, the hook switches to it and drops the subscription
+ * to the previous one. Only the inner value participates in SSR hydration: the outer Flow holds Flow
+ * instances, which can't be transferred to the client, so it is read on the server and on the client
+ * as is and must point to the same inner Flow on both.
+ *
+ * @typeParam T - The type of value stored in the inner Flows
+ *
+ * @param outer - The Flow of Flows to subscribe to, or `skipToken` to skip subscription.
+ *   The outer Flow may emit `skipToken` to skip the inner subscription.
+ * @returns The value of the current inner Flow, or `null` if skipped
+ *
+ * @example
+ * ```tsx
+ * const selectedCounterFlow = createFlow<Flow<number>>(firstCounterFlow);
+ *
+ * function SelectedCounter() {
+ *   const count = useSwitchFlow(selectedCounterFlow);
+ *   return <span>{count}</span>;
+ * }
+ * ```
+ */
+export function useSwitchFlow(outer: SkipToken): null;
+export function useSwitchFlow<T>(outer: Flow<Flow<T>>): T;
+export function useSwitchFlow<T>(outer: Flow<Flow<T> | SkipToken> | SkipToken): T | null;
+export function useSwitchFlow<T>(outer: Flow<Flow<T> | SkipToken> | SkipToken): T | null {
+    const inner = useInnerFlow(outer);
+    return useFlow(inner);
+}
+
+/**
+ * Subscribes to a Flow of AsyncFlows and returns the state of the latest inner AsyncFlow,
+ * like {@link useAsyncFlow} does.
+ *
+ * Whenever the outer Flow emits a new inner AsyncFlow, the hook switches to it and drops the subscription
+ * to the previous one. A switch is handled like passing a new flow to {@link useAsyncFlow}: the component
+ * suspends while the new flow is pending, unless the `placeholder` or `transition` options are used.
+ * Only the inner state participates in SSR hydration, see {@link useSwitchFlow}.
+ *
+ * @typeParam T - The type of the inner AsyncFlows
+ * @typeParam S - The type of data returned by the `select` option
+ *
+ * @param outer - The Flow of AsyncFlows to subscribe to, or `skipToken` to skip subscription.
+ *   The outer Flow may emit `skipToken` to skip the inner subscription.
+ * @param options - The same options as for {@link useAsyncFlow}
+ * @returns The same result as {@link useAsyncFlow} for the current inner AsyncFlow
+ *
+ * @example
+ * ```tsx
+ * const selectedDocumentFlow = createFlow<AsyncFlow<Doc> | SkipToken>(skipToken);
+ *
+ * function SelectedDocument() {
+ *   const [doc, state] = useSwitchAsyncFlow(selectedDocumentFlow, { placeholder: "previous" });
+ *   if (!doc) return <EmptyState />;
+ *   return <DocumentView doc={doc()} dimmed={state.isPlaceholderData} />;
+ * }
+ * ```
+ */
+export function useSwitchAsyncFlow(outer: SkipToken, options?: UseAsyncFlowOptions): [null, SkippedState, null];
+export function useSwitchAsyncFlow<T extends AsyncFlow<unknown>, S = InferAsyncFlowValue<T>>(
+    outer: Flow<T>,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S, InferAsyncFlowControls<T>>;
+export function useSwitchAsyncFlow<T extends AsyncFlow<unknown>, S = InferAsyncFlowValue<T>>(
+    outer: Flow<T | SkipToken> | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S, InferAsyncFlowControls<T>> | [null, SkippedState, null];
+export function useSwitchAsyncFlow<T extends AsyncFlow<unknown>, S>(
+    outer: Flow<T | SkipToken> | SkipToken,
+    options?: UseAsyncFlowOptions<InferAsyncFlowValue<T>, S>,
+): UseAsyncFlowResult<S> | [null, SkippedState, null] {
+    const inner = useInnerFlow(outer);
+    return useAsyncFlow(inner, options);
+}
+
+/**
+ * Subscribes to a Flow of Flows and returns the current inner Flow.
+ *
+ * Unlike {@link useFlow}, the outer Flow does not participate in SSR hydration,
+ * since Flow instances can't be serialized.
+ *
+ * @typeParam F - The type of the inner Flows
+ * @param outer - The Flow of Flows to subscribe to, or `skipToken` to skip subscription
+ * @returns The current inner Flow, or `skipToken` if skipped
+ * @internal
+ */
+function useInnerFlow<F>(outer: Flow<F | SkipToken> | SkipToken): F | SkipToken {
+    const subscribe = useCallback(
+        (notify: () => void) => {
+            if (outer === skipToken) {
+                return () => {
+                    // noop
+                };
+            }
+
+            return outer.subscribe(notify).unsubscribe;
+        },
+        [outer],
+    );
+
+    const getSnapshot = useCallback(() => {
+        if (outer === skipToken) return skipToken;
+        return outer.getSnapshot();
+    }, [outer]);
+
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
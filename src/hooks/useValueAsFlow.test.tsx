@@ -0,0 +1,124 @@
+import { describe, expectTypeOf, it, expect, afterEach, vi } from "vitest";
+import { startTransition, Suspense } from "react";
+import { render, screen, cleanup, act, renderHook } from "@testing-library/react";
+import type { Flow } from "@tsip/types";
+import { useValueAsFlow } from "./useValueAsFlow";
+
+describe("useValueAsFlow", () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe("types behavior", () => {
+        it("should infer return types", () => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            function Component() {
+                expectTypeOf(useValueAsFlow(0)).toEqualTypeOf<Flow<number>>();
+                expectTypeOf(useValueAsFlow<string | null>(null)).toEqualTypeOf<Flow<string | null>>();
+            }
+        });
+    });
+
+    describe("basic functionality", () => {
+        it("should return a stable flow with the current value", () => {
+            const { result, rerender } = renderHook(({ value }) => useValueAsFlow(value), {
+                initialProps: { value: 1 },
+            });
+            const flow = result.current;
+
+            expect(flow.getSnapshot()).toBe(1);
+
+            rerender({ value: 2 });
+
+            expect(result.current).toBe(flow);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should emit when the rendered value changes", () => {
+            const listener = vi.fn();
+
+            const { result, rerender } = renderHook(({ value }) => useValueAsFlow(value), {
+                initialProps: { value: "a" },
+            });
+            result.current.subscribe(listener);
+
+            rerender({ value: "a" });
+            expect(listener).not.toHaveBeenCalled();
+
+            rerender({ value: "b" });
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("should emit at commit time", () => {
+            const flows = new Set<Flow<number>>();
+            const snapshots: number[] = [];
+
+            const Component = ({ value }: { value: number }) => {
+                const flow = useValueAsFlow(value);
+                flows.add(flow);
+                snapshots.push(flow.getSnapshot());
+                return null;
+            };
+
+            const { rerender } = render(<Component value={1} />);
+            rerender(<Component value={2} />);
+
+            // The render with the new value still sees the committed value
+            expect(snapshots).toEqual([1, 1]);
+            expect(flows.values().next().value?.getSnapshot()).toBe(2);
+        });
+
+        it("should not emit values of renders that are thrown away", async () => {
+            let resolve: (value: undefined) => void = () => undefined;
+            const promise = new Promise<undefined>((res) => {
+                resolve = res;
+            });
+            const flows = new Set<Flow<number>>();
+            const listener = vi.fn();
+            let isResolved = false;
+
+            const Suspender = ({ value }: { value: number }) => {
+                if (value === 2 && !isResolved) {
+                    // eslint-disable-next-line @typescript-eslint/only-throw-error
+                    throw promise;
+                }
+                return <div data-testid="value">{value}</div>;
+            };
+
+            const Component = ({ value }: { value: number }) => {
+                const flow = useValueAsFlow(value);
+                flows.add(flow);
+                return <Suspender value={value} />;
+            };
+
+            const App = ({ value }: { value: number }) => (
+                <Suspense fallback={<div data-testid="fallback">Loading...</div>}>
+                    <Component value={value} />
+                </Suspense>
+            );
+
+            const { rerender } = render(<App value={1} />);
+            flows.values().next().value?.subscribe(listener);
+
+            act(() => {
+                startTransition(() => {
+                    rerender(<App value={2} />);
+                });
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("1");
+            expect(flows.values().next().value?.getSnapshot()).toBe(1);
+            expect(listener).not.toHaveBeenCalled();
+
+            await act(async () => {
+                isResolved = true;
+                resolve(undefined);
+                await promise;
+            });
+
+            expect(screen.getByTestId("value")).toHaveTextContent("2");
+            expect(flows.values().next().value?.getSnapshot()).toBe(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,42 @@
+import type { Flow } from "@tsip/types";
+import { useState } from "react";
+import { createLocalFlow } from "../flows/localFlow";
+import { useIsomorphicLayoutEffect } from "./useIsomorphicLayoutEffect";
+
+/**
+ * Exposes a value of the component, such as a prop or a piece of state, as a Flow.
+ *
+ * The returned Flow keeps its identity for the lifetime of the component and emits whenever the rendered
+ * value changes, so it can be handed to non-React code that consumes flows. Values are emitted at commit time,
+ * not during render, so values of renders that are thrown away never reach the Flow. Values are compared
+ * with `Object.is`.
+ *
+ * @typeParam T - The type of the value
+ * @param value - The value to expose
+ * @returns A stable Flow of the latest committed value
+ *
+ * @example
+ * ```tsx
+ * function Chart({ data, zoom }: { data: Point[]; zoom: number }) {
+ *   const zoomFlow = useValueAsFlow(zoom);
+ *   const canvasRef = useRef<HTMLCanvasElement>(null);
+ *
+ *   useEffect(() => {
+ *     const renderer = createRenderer(canvasRef.current, { zoom: zoomFlow });
+ *     return () => renderer.destroy();
+ *   }, [zoomFlow]);
+ *
+ *   return <canvas ref={canvasRef} />;
+ * }
+ * ```
+ */
+export function useValueAsFlow<T>(value: T): Flow<T> {
+    const [flow] = useState(() => createLocalFlow(value));
+    const [readonlyFlow] = useState(() => flow.asFlow());
+
+    useIsomorphicLayoutEffect(() => {
+        flow.emit(value);
+    }, [flow, value]);
+
+    return readonlyFlow;
+}
@@ -1,12 +1,72 @@
 export { skipToken, type SkipToken } from "./skipToken";
-export { useFlow } from "./hooks/useFlow";
+export { useFlow, type UseFlowOptions } from "./hooks/useFlow";
+export { useFlowSelector } from "./hooks/useFlowSelector";
+export { useFlowRef } from "./hooks/useFlowRef";
+export { useFlowGetter } from "./hooks/useFlowGetter";
+export { useFlowWhen } from "./hooks/useFlowWhen";
+export { useFlows } from "./hooks/useFlows";
+export { useFlowState, type SetFlowStateAction, type UseFlowStateResult } from "./hooks/useFlowState";
+export {
+    useFlowReducer,
+    type FlowReducer,
+    type FlowDispatch,
+    type FlowReducerMiddleware,
+    type FlowReducerMiddlewareApi,
+    type UseFlowReducerOptions,
+    type UseFlowReducerResult,
+} from "./hooks/useFlowReducer";
+export { useCreateFlow, useCreateAsyncFlow } from "./hooks/useCreateFlow";
+export type { FlowsInput, FlowsValues, FlowInputValue } from "./flows/combineFlows";
+export { createFlowFamily, type FlowFamily, type FlowFamilyOptions } from "./flows/flowFamily";
+export { shallowEqual, deepEqual, type EqualityFn } from "./equality";
+export type { FlowSchedule } from "./schedule";
 export {
     useAsyncFlow,
     type UseAsyncFlowResult,
     type UseAsyncFlowAccessor,
     type UseAsyncFlowState,
+    type UseAsyncFlowOptions,
+    type UseAsyncFlowControls,
 } from "./hooks/useAsyncFlow";
-export { useFlowEffect } from "./hooks/useFlowEffect";
+export { isRefreshableAsyncFlow, type RefreshableAsyncFlow } from "./refreshable";
+export { readAsyncFlow, useFlowPromise } from "./hooks/useFlowPromise";
+export { useAsyncSource } from "./hooks/useAsyncSource";
+export type { AsyncSource, InferAsyncSourceValue } from "./flows/asyncSource";
+export {
+    useAsyncFlowAll,
+    useAsyncFlowAllSettled,
+    useAsyncFlowRace,
+    type InferAsyncFlowValues,
+    type UseAsyncFlowCombinedResult,
+    type UseAsyncFlowCombinedState,
+} from "./hooks/useAsyncFlowAll";
+export { useSwitchFlow, useSwitchAsyncFlow } from "./hooks/useSwitchFlow";
+export { useDerivedFlow } from "./hooks/useDerivedFlow";
+export { useValueAsFlow } from "./hooks/useValueAsFlow";
+export {
+    useFlowEffect,
+    type FlowEffectHandler,
+    type FlowEffectConcurrency,
+    type UseFlowEffectOptions,
+} from "./hooks/useFlowEffect";
+export { useFlowsEffect, type FlowsEffectHandler } from "./hooks/useFlowsEffect";
+export { useFlowSubscription } from "./hooks/useFlowSubscription";
+export {
+    useAsyncFlowEffect,
+    type AsyncFlowTransitionHandler,
+    type UseAsyncFlowEffectHandlers,
+} from "./hooks/useAsyncFlowEffect";
+export { FlowTransitionProvider, type FlowTransitionProviderProps } from "./transition/context";
+export { FlowScopeProvider, type FlowScopeProviderProps } from "./scope/context";
+export {
+    defineScopedFlow,
+    createFlowScope,
+    type ScopedFlow,
+    type ScopedFlowOptions,
+    type FlowScopeOptions,
+    type FlowScope,
+} from "./scope/scope";
+export { useScopedFlow } from "./hooks/useScopedFlow";
 export type { FlowHydrationManager } from "./hydration/types";
 export { FlowHydrationProvider, type FlowHydrationProviderProps } from "./hydration/context";
 export { createFlowHydrationManager } from "./hydration/client";
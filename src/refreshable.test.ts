@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { createAsyncFlow } from "@tsip/flow";
+import { isRefreshableAsyncFlow } from "./refreshable";
+
+describe("isRefreshableAsyncFlow", () => {
+    it("should detect flows with refetch and invalidate methods", () => {
+        const flow = Object.assign(createAsyncFlow({ status: "success", data: 0 }), {
+            refetch: () => Promise.resolve(),
+            invalidate: () => {
+                // noop
+            },
+        });
+
+        expect(isRefreshableAsyncFlow(flow)).toBe(true);
+    });
+
+    it("should reject flows without the protocol", () => {
+        const flow = createAsyncFlow({ status: "success", data: 0 });
+        const partial = Object.assign(createAsyncFlow({ status: "success", data: 0 }), {
+            refetch: () => Promise.resolve(),
+        });
+
+        expect(isRefreshableAsyncFlow(flow)).toBe(false);
+        expect(isRefreshableAsyncFlow(partial)).toBe(false);
+    });
+});
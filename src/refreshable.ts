@@ -0,0 +1,43 @@
+import type { AsyncFlow } from "@tsip/types";
+
+/**
+ * An AsyncFlow that can be asked to reload its data.
+ *
+ * This is an optional protocol: flows that implement it get `refetch()` and `invalidate()`
+ * controls from {@link useAsyncFlow}, other flows are consumed as usual.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ *
+ * @example
+ * ```ts
+ * const userFlow: RefreshableAsyncFlow<User> = Object.assign(createAsyncFlow<User>({ status: "pending" }), {
+ *   refetch: () => loadUser(),
+ *   invalidate: () => cache.delete("user"),
+ * });
+ * ```
+ */
+export interface RefreshableAsyncFlow<T> extends AsyncFlow<T> {
+    /**
+     * Reloads the data of the flow.
+     *
+     * @returns A promise that settles when the reload is finished
+     */
+    refetch(): Promise<unknown>;
+
+    /**
+     * Marks the data of the flow as stale, so it is reloaded the next time it is needed.
+     */
+    invalidate(): void;
+}
+
+/**
+ * Checks whether an AsyncFlow implements the {@link RefreshableAsyncFlow} protocol.
+ *
+ * @typeParam T - The type of data in the AsyncFlow
+ * @param flow - The AsyncFlow to check
+ * @returns `true` if the flow has `refetch()` and `invalidate()` methods
+ */
+export function isRefreshableAsyncFlow<T>(flow: AsyncFlow<T>): flow is RefreshableAsyncFlow<T> {
+    const candidate = flow as Partial<RefreshableAsyncFlow<T>>;
+    return typeof candidate.refetch === "function" && typeof candidate.invalidate === "function";
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
+import { normalizeSchedule, scheduleNotify } from "./schedule";
+
+describe("normalizeSchedule", () => {
+    it("should convert schedules to primitives", () => {
+        expect(normalizeSchedule()).toEqual(["sync", 0]);
+        expect(normalizeSchedule("microtask")).toEqual(["microtask", 0]);
+        expect(normalizeSchedule("animationFrame")).toEqual(["animationFrame", 0]);
+        expect(normalizeSchedule({ throttle: 100 })).toEqual(["throttle", 100]);
+        expect(normalizeSchedule({ debounce: 50 })).toEqual(["debounce", 50]);
+    });
+});
+
+describe("scheduleNotify", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it("should notify synchronously", () => {
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "sync", 0);
+
+        scheduled();
+        scheduled();
+
+        expect(notify).toHaveBeenCalledTimes(2);
+    });
+
+    it("should coalesce notifications in a microtask", async () => {
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "microtask", 0);
+
+        scheduled();
+        scheduled();
+        scheduled();
+
+        expect(notify).not.toHaveBeenCalled();
+
+        await Promise.resolve();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        scheduled();
+        await Promise.resolve();
+
+        expect(notify).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not notify in a microtask after cancel", async () => {
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "microtask", 0);
+
+        scheduled();
+        scheduled.cancel();
+        await Promise.resolve();
+
+        expect(notify).not.toHaveBeenCalled();
+    });
+
+    it("should coalesce notifications in an animation frame", () => {
+        const frames = new Map<number, FrameRequestCallback>();
+        let nextFrame = 1;
+        vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+            frames.set(nextFrame, callback);
+            return nextFrame++;
+        });
+        vi.stubGlobal("cancelAnimationFrame", (frame: number) => {
+            frames.delete(frame);
+        });
+        const flushFrames = () => {
+            const callbacks = [...frames.values()];
+            frames.clear();
+            callbacks.forEach((callback) => {
+                callback(0);
+            });
+        };
+
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "animationFrame", 0);
+
+        scheduled();
+        scheduled();
+
+        expect(frames.size).toBe(1);
+        expect(notify).not.toHaveBeenCalled();
+
+        flushFrames();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        scheduled();
+        scheduled.cancel();
+        flushFrames();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+    });
+
+    it("should throttle notifications with a trailing call", () => {
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "throttle", 100);
+
+        scheduled();
+
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        scheduled();
+        scheduled();
+        vi.advanceTimersByTime(50);
+
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(50);
+
+        expect(notify).toHaveBeenCalledTimes(2);
+
+        vi.advanceTimersByTime(100);
+        scheduled();
+
+        expect(notify).toHaveBeenCalledTimes(3);
+    });
+
+    it("should debounce notifications", () => {
+        const notify = vi.fn();
+        const scheduled = scheduleNotify(notify, "debounce", 100);
+
+        scheduled();
+        vi.advanceTimersByTime(60);
+        scheduled();
+        vi.advanceTimersByTime(60);
+
+        expect(notify).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(40);
+
+        expect(notify).toHaveBeenCalledTimes(1);
+
+        scheduled();
+        scheduled.cancel();
+        vi.advanceTimersByTime(100);
+
+        expect(notify).toHaveBeenCalledTimes(1);
+    });
+});
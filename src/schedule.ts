@@ -0,0 +1,207 @@
+/**
+ * Controls when a hook reacts to the updates of a Flow.
+ *
+ * - `"sync"`: re-render on every emit (the default)
+ * - `"microtask"`: coalesce emits that happen in the same task
+ * - `"animationFrame"`: re-render at most once per animation frame
+ * - `{ throttle: ms }`: re-render on the first emit and then at most once per `ms` milliseconds
+ * - `{ debounce: ms }`: re-render once emits stop for `ms` milliseconds
+ *
+ * Whatever the schedule, a render always reads the latest value of the Flow.
+ *
+ * @example
+ * ```tsx
+ * const position = useFlow(pointerFlow, { schedule: "animationFrame" });
+ * const results = useFlow(searchFlow, { schedule: { debounce: 300 } });
+ * ```
+ */
+export type FlowSchedule = "sync" | "microtask" | "animationFrame" | { throttle: number } | { debounce: number };
+
+/**
+ * The kind of a {@link FlowSchedule}, used together with the delay to keep memoization stable
+ * when schedules are passed as inline objects.
+ * @internal
+ */
+export type FlowScheduleKind = "sync" | "microtask" | "animationFrame" | "throttle" | "debounce";
+
+/**
+ * Converts a schedule to a pair of primitive values.
+ *
+ * @param schedule - The schedule to normalize, `"sync"` if not specified
+ * @returns The kind of the schedule and its delay in milliseconds
+ * @internal
+ */
+export function normalizeSchedule(schedule: FlowSchedule = "sync"): [FlowScheduleKind, number] {
+    if (typeof schedule === "string") {
+        return [schedule, 0];
+    }
+
+    if ("throttle" in schedule) {
+        return ["throttle", schedule.throttle];
+    }
+
+    return ["debounce", schedule.debounce];
+}
+
+/**
+ * A notification function that coalesces calls according to a schedule.
+ * @internal
+ */
+export interface ScheduledNotify {
+    /** Requests a notification. */
+    (): void;
+    /** Cancels a pending notification. */
+    cancel(): void;
+}
+
+/**
+ * Wraps a notification function, so calls are coalesced according to the schedule.
+ *
+ * @param notify - The function to call
+ * @param kind - The kind of the schedule
+ * @param delay - The delay for throttle and debounce schedules, in milliseconds
+ * @returns The scheduled notification function
+ * @internal
+ */
+export function scheduleNotify(notify: () => void, kind: FlowScheduleKind, delay: number): ScheduledNotify {
+    switch (kind) {
+        case "sync":
+            return Object.assign(
+                () => {
+                    notify();
+                },
+                { cancel: noop },
+            );
+        case "microtask":
+            return scheduleMicrotask(notify);
+        case "animationFrame":
+            return scheduleAnimationFrame(notify);
+        case "throttle":
+            return scheduleThrottle(notify, delay);
+        case "debounce":
+            return scheduleDebounce(notify, delay);
+    }
+}
+
+/**
+ * Coalesces calls made in the same task into one call in a microtask.
+ * @internal
+ */
+function scheduleMicrotask(notify: () => void): ScheduledNotify {
+    let scheduled = false;
+    let cancelled = false;
+
+    const schedule = () => {
+        if (scheduled || cancelled) return;
+        scheduled = true;
+
+        queueMicrotask(() => {
+            scheduled = false;
+            if (!cancelled) notify();
+        });
+    };
+
+    return Object.assign(schedule, {
+        cancel: () => {
+            cancelled = true;
+        },
+    });
+}
+
+/**
+ * Coalesces calls into one call in the next animation frame.
+ * @internal
+ */
+function scheduleAnimationFrame(notify: () => void): ScheduledNotify {
+    let frame: number | null = null;
+
+    const scheduled = () => {
+        if (frame !== null) return;
+
+        frame = requestAnimationFrame(() => {
+            frame = null;
+            notify();
+        });
+    };
+
+    return Object.assign(scheduled, {
+        cancel: () => {
+            if (frame !== null) {
+                cancelAnimationFrame(frame);
+                frame = null;
+            }
+        },
+    });
+}
+
+/**
+ * Calls immediately, and then at most once per `delay` milliseconds with a trailing call.
+ * @internal
+ */
+function scheduleThrottle(notify: () => void, delay: number): ScheduledNotify {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let trailing = false;
+
+    const tick = () => {
+        if (trailing) {
+            trailing = false;
+            notify();
+            timer = setTimeout(tick, delay);
+        } else {
+            timer = null;
+        }
+    };
+
+    const scheduled = () => {
+        if (timer !== null) {
+            trailing = true;
+            return;
+        }
+
+        notify();
+        timer = setTimeout(tick, delay);
+    };
+
+    return Object.assign(scheduled, {
+        cancel: () => {
+            if (timer !== null) {
+                clearTimeout(timer);
+                timer = null;
+            }
+            trailing = false;
+        },
+    });
+}
+
+/**
+ * Calls once the calls stop for `delay` milliseconds.
+ * @internal
+ */
+function scheduleDebounce(notify: () => void, delay: number): ScheduledNotify {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const cancel = () => {
+        if (timer !== null) {
+            clearTimeout(timer);
+            timer = null;
+        }
+    };
+
+    const scheduled = () => {
+        cancel();
+        timer = setTimeout(() => {
+            timer = null;
+            notify();
+        }, delay);
+    };
+
+    return Object.assign(scheduled, { cancel });
+}
+
+/**
+ * No-op cancel function.
+ * @internal
+ */
+function noop() {
+    // noop
+}
@@ -0,0 +1,69 @@
+import { createContext, useContext, useState, type ReactNode } from "react";
+import { useHydration } from "../hydration/context";
+import { createFlowScope, type FlowScope } from "./scope";
+
+/**
+ * React context for providing the scope of scoped flows throughout the component tree.
+ * @internal
+ */
+const context = createContext<FlowScope | null>(null);
+
+/**
+ * Props for the {@link FlowScopeProvider} component.
+ */
+export interface FlowScopeProviderProps {
+    /**
+     * The scope to provide to the component tree. If omitted, the provider creates a new scope
+     * once per mount, which gives every server request its own scope. The created scope uses the
+     * hydration manager of the nearest `FlowHydrationProvider`.
+     */
+    scope?: FlowScope;
+
+    /**
+     * Child components that will have access to the scope.
+     */
+    children: ReactNode;
+}
+
+/**
+ * Provider component that makes a scope of scoped flows available to all child components.
+ *
+ * Place it at the root of the application next to the {@link FlowHydrationProvider}. Every render of the
+ * application on the server gets its own instances of scoped flows, and the values that components read
+ * from them are hydrated on the client like the values of any other flow.
+ *
+ * ## Usage
+ *
+ * ```tsx
+ * import { FlowHydrationProvider, FlowScopeProvider } from '@tsip/flow-react';
+ *
+ * function Root({ manager }: { manager: FlowHydrationManager }) {
+ *   return (
+ *     <FlowHydrationProvider manager={manager}>
+ *       <FlowScopeProvider>
+ *         <App />
+ *       </FlowScopeProvider>
+ *     </FlowHydrationProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @param props - Component props
+ * @returns The provider component
+ */
+export function FlowScopeProvider({ scope, children }: FlowScopeProviderProps) {
+    const hydration = useHydration();
+    const [ownScope] = useState(() => createFlowScope({ hydration }));
+    return <context.Provider value={scope ?? ownScope}>{children}</context.Provider>;
+}
+
+/**
+ * Hook to access the scope provided by the nearest {@link FlowScopeProvider}.
+ *
+ * @returns The scope, or `null` if no provider is found
+ *
+ * @internal
+ */
+export function useFlowScope(): FlowScope | null {
+    return useContext(context);
+}
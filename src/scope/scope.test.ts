@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import { createFlow } from "@tsip/flow";
+import { createFlowScope, defineScopedFlow, type ScopedFlow } from "./scope";
+import type { Flow } from "@tsip/types";
+import type { FlowHydrationManager } from "../hydration/types";
+
+describe("createFlowScope", () => {
+    it("should create instances lazily", () => {
+        const factory = vi.fn(() => createFlow(0));
+        const counterFlow = defineScopedFlow(factory);
+        const scope = createFlowScope();
+
+        expect(factory).not.toHaveBeenCalled();
+
+        const instance = scope.get(counterFlow);
+
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(scope.get(counterFlow)).toBe(instance);
+        expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it("should create separate instances for every scope", () => {
+        const counterFlow = defineScopedFlow(() => createFlow(0));
+        const scope1 = createFlowScope();
+        const scope2 = createFlowScope();
+
+        scope1.get(counterFlow).emit(1);
+
+        expect(scope2.get(counterFlow)).not.toBe(scope1.get(counterFlow));
+        expect(scope2.get(counterFlow).getSnapshot()).toBe(0);
+    });
+
+    it("should pass the scope to the factory", () => {
+        const baseFlow = defineScopedFlow(() => createFlow(1));
+        const dependentFlow = defineScopedFlow((scope) => {
+            const base = scope.get(baseFlow);
+            return createFlow(base.getSnapshot() + 1);
+        });
+        const scope = createFlowScope();
+
+        scope.get(baseFlow).emit(10);
+
+        expect(scope.get(dependentFlow).getSnapshot()).toBe(11);
+    });
+
+    it("should throw on circular dependencies", () => {
+        const scope = createFlowScope();
+        const firstFlow: ScopedFlow<Flow<number>> = defineScopedFlow((scope) => scope.get(secondFlow));
+        const secondFlow: ScopedFlow<Flow<number>> = defineScopedFlow((scope) => scope.get(firstFlow));
+
+        expect(() => scope.get(firstFlow)).toThrow("Circular dependency between scoped flows");
+    });
+
+    describe("hydration", () => {
+        it("should seed new instances of flows with a key with the server value", () => {
+            const sessionFlow = defineScopedFlow(() => createFlow("anonymous"), { key: "session" });
+            const otherFlow = defineScopedFlow(() => createFlow("anonymous"));
+            const hydration = createHydrationManager(new Map([["scoped:session", "alice"]]));
+            const scope = createFlowScope({ hydration });
+
+            expect(scope.get(sessionFlow).getSnapshot()).toBe("alice");
+            expect(scope.get(otherFlow).getSnapshot()).toBe("anonymous");
+            expect(hydration.register).not.toHaveBeenCalled();
+        });
+
+        it("should register the value of instances once and again on every change", () => {
+            const sessionFlow = defineScopedFlow(() => createFlow("anonymous"), { key: "session" });
+            const hydration = createHydrationManager(new Map());
+            const scope = createFlowScope({ hydration });
+
+            const instance = scope.get(sessionFlow);
+            scope.get(sessionFlow);
+
+            expect(hydration.register).toHaveBeenCalledTimes(1);
+            expect(hydration.register).toHaveBeenLastCalledWith("scoped:session", instance, "anonymous");
+
+            instance.emit("alice");
+
+            expect(hydration.register).toHaveBeenCalledTimes(2);
+            expect(hydration.register).toHaveBeenLastCalledWith("scoped:session", instance, "alice");
+        });
+    });
+});
+
+function createHydrationManager(values: Map<string, unknown>) {
+    return {
+        hydrate: vi.fn((id: string) => (values.has(id) ? { value: values.get(id) } : undefined)),
+        register: vi.fn(),
+        getScript: vi.fn(() => null),
+        getNonce: vi.fn(() => undefined),
+    } satisfies FlowHydrationManager;
+}
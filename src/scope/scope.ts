@@ -0,0 +1,204 @@
+import type { Flow, MutableFlow } from "@tsip/types";
+import type { FlowHydrationManager } from "../hydration/types";
+
+/**
+ * A definition of a flow that has one instance per {@link FlowScope}.
+ *
+ * @typeParam F - The type of the flow
+ */
+export interface ScopedFlow<F extends Flow<unknown>> {
+    /**
+     * The key used to transfer the value of the flow from the server to the client.
+     */
+    readonly key: string | undefined;
+
+    /**
+     * Creates the instance of the flow for a scope.
+     * @internal
+     */
+    readonly create: (scope: FlowScope) => F;
+}
+
+/**
+ * Options for {@link defineScopedFlow}.
+ */
+export interface ScopedFlowOptions {
+    /**
+     * A unique key used to transfer the value of the flow from the server to the client.
+     *
+     * With a key, the value of the instance rendered on the server seeds the instance created on the client,
+     * if the flow has an `emit` method. Without a key, only the values that hooks read from the flow are hydrated,
+     * and the client instance starts from the value created by the factory.
+     */
+    key?: string;
+}
+
+/**
+ * Options for {@link createFlowScope}.
+ */
+export interface FlowScopeOptions {
+    /**
+     * The hydration manager that transfers the values of scoped flows with a key.
+     *
+     * On the server, the value of every instance with a key is registered when the instance is created and again
+     * whenever it changes. On the client, a new instance is seeded with the value rendered on the server before
+     * it is returned. {@link FlowScopeProvider} passes the manager of the nearest `FlowHydrationProvider`
+     * to the scope it creates.
+     */
+    hydration?: FlowHydrationManager | null;
+}
+
+/**
+ * A registry of the instances of scoped flows, usually one per request on the server and one on the client.
+ */
+export interface FlowScope {
+    /**
+     * Returns the instance of a scoped flow in this scope, creating it on the first call.
+     *
+     * @param flow - The definition of the scoped flow
+     * @returns The instance of the flow
+     */
+    get<F extends Flow<unknown>>(flow: ScopedFlow<F>): F;
+}
+
+/**
+ * The definitions created by {@link defineScopedFlow}, to tell them apart from flows.
+ */
+const scopedFlows = new WeakSet<object>();
+
+/**
+ * Defines a flow that has a separate instance in every {@link FlowScope}.
+ *
+ * Module-level flows are shared by all requests rendered by the same server process, so data of one request
+ * can leak into another. A scoped flow is created lazily in the scope of the request instead, and once
+ * on the client. Read it in components under a {@link FlowScopeProvider} with {@link useFlow} and other hooks
+ * that read flows, or get the instance with {@link useScopedFlow}.
+ *
+ * @typeParam F - The type of the flow
+ * @param factory - Creates the instance of the flow. Receives the scope to read other scoped flows.
+ * @param options - The hydration key of the flow
+ * @returns The definition of the scoped flow
+ *
+ * @example
+ * ```tsx
+ * const cartFlow = defineScopedFlow(() => createFlow<CartItem[]>([]), { key: "cart" });
+ * const cartTotalFlow = defineScopedFlow((scope) => createTotalFlow(scope.get(cartFlow)));
+ *
+ * function CartTotal() {
+ *   const total = useFlow(cartTotalFlow);
+ *   return <span>{total}</span>;
+ * }
+ * ```
+ */
+export function defineScopedFlow<F extends Flow<unknown>>(
+    factory: (scope: FlowScope) => F,
+    options?: ScopedFlowOptions,
+): ScopedFlow<F> {
+    const flow: ScopedFlow<F> = { key: options?.key, create: factory };
+    scopedFlows.add(flow);
+    return flow;
+}
+
+/**
+ * Checks whether a value is a scoped flow definition created by {@link defineScopedFlow}.
+ * @internal
+ */
+export function isScopedFlow(value: unknown): value is ScopedFlow<Flow<unknown>> {
+    return typeof value === "object" && value !== null && scopedFlows.has(value);
+}
+
+/**
+ * Creates an empty scope for scoped flows.
+ *
+ * {@link FlowScopeProvider} creates a scope on its own. Create one manually to share the instances
+ * with code outside React, such as data loading before rendering on the server.
+ *
+ * @param options - The hydration manager of the render
+ * @returns A new scope
+ *
+ * @example
+ * ```tsx
+ * async function handleRequest(req: Request) {
+ *   const manager = createFlowHydrationManager();
+ *   const scope = createFlowScope({ hydration: manager });
+ *   scope.get(sessionFlow).emit(await loadSession(req));
+ *
+ *   return renderToReadableStream(
+ *     <FlowHydrationProvider manager={manager}>
+ *       <FlowScopeProvider scope={scope}>
+ *         <App />
+ *       </FlowScopeProvider>
+ *     </FlowHydrationProvider>,
+ *   );
+ * }
+ * ```
+ */
+export function createFlowScope(options?: FlowScopeOptions): FlowScope {
+    const hydration = options?.hydration ?? null;
+    const instances = new Map<ScopedFlow<Flow<unknown>>, Flow<unknown>>();
+    const creating = new Set<ScopedFlow<Flow<unknown>>>();
+
+    const scope: FlowScope = {
+        get<F extends Flow<unknown>>(flow: ScopedFlow<F>): F {
+            let instance = instances.get(flow) as F | undefined;
+            if (instance) {
+                return instance;
+            }
+
+            if (creating.has(flow)) {
+                throw new Error("Circular dependency between scoped flows");
+            }
+
+            creating.add(flow);
+            try {
+                instance = flow.create(scope);
+            } finally {
+                creating.delete(flow);
+            }
+
+            instances.set(flow, instance);
+            if (hydration && flow.key !== undefined) {
+                hydrateScopedFlow(hydration, `scoped:${flow.key}`, instance);
+            }
+
+            return instance;
+        },
+    };
+
+    return scope;
+}
+
+/**
+ * Transfers the value of a new instance of a scoped flow with a key from the server to the client.
+ *
+ * On the client, the instance is seeded with the server value. Otherwise the value is registered,
+ * and registered again whenever it changes, so the latest value is sent with the next hydration script.
+ *
+ * @param hydration - The hydration manager of the scope
+ * @param id - The hydration id of the scoped flow
+ * @param instance - The new instance of the flow
+ * @internal
+ */
+function hydrateScopedFlow(hydration: FlowHydrationManager, id: string, instance: Flow<unknown>): void {
+    const serverValue = hydration.hydrate(id);
+
+    if (serverValue) {
+        if (isMutableFlow(instance)) {
+            instance.emit(serverValue.value);
+        }
+        return;
+    }
+
+    hydration.register(id, instance, instance.getSnapshot());
+    instance.subscribe(() => {
+        hydration.register(id, instance, instance.getSnapshot());
+    });
+}
+
+/**
+ * Checks whether a flow can emit values.
+ * @internal
+ */
+function isMutableFlow(flow: Flow<unknown>): flow is MutableFlow<unknown> {
+    return typeof (flow as Partial<MutableFlow<unknown>>).emit === "function";
+}
@@ -0,0 +1,62 @@
+import { createContext, useContext, type ReactNode } from "react";
+
+/**
+ * React context for enabling transition mode throughout the component tree.
+ * @internal
+ */
+const context = createContext(false);
+
+/**
+ * Props for the {@link FlowTransitionProvider} component.
+ */
+export interface FlowTransitionProviderProps {
+    /**
+     * Whether hooks in the subtree should apply flow updates as React transitions.
+     * Defaults to `true`.
+     */
+    enabled?: boolean;
+
+    /**
+     * Child components that will use transition mode.
+     */
+    children: ReactNode;
+}
+
+/**
+ * Provider component that enables transition mode for all async flow hooks in the subtree.
+ *
+ * In transition mode, updates coming from flows are applied with `startTransition`, so switching to a
+ * flow that has no data yet keeps the previously committed UI on screen instead of showing the nearest
+ * Suspense fallback. Individual hooks can still opt out with `{ transition: false }`.
+ *
+ * ## Usage
+ *
+ * ```tsx
+ * import { FlowTransitionProvider } from '@tsip/flow-react';
+ *
+ * function App() {
+ *   return (
+ *     <FlowTransitionProvider>
+ *       <YourApp />
+ *     </FlowTransitionProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @param props - Component props
+ * @returns The provider component
+ */
+export function FlowTransitionProvider({ enabled = true, children }: FlowTransitionProviderProps) {
+    return <context.Provider value={enabled}>{children}</context.Provider>;
+}
+
+/**
+ * Hook to check whether transition mode is enabled by the nearest {@link FlowTransitionProvider}.
+ *
+ * @returns `true` if transition mode is enabled, `false` otherwise
+ *
+ * @internal
+ */
+export function useFlowTransitionEnabled(): boolean {
+    return useContext(context);
+}